@@ -9,14 +9,59 @@
 create table if not exists public.announcements (
   id uuid default gen_random_uuid() primary key,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-  image_url text not null,
+  image_url text, -- Uploaded file; null for text slides
+  content_type text default 'media', -- 'media' | 'text' | 'url'
+  text_content jsonb, -- Text slides: headline, body, colours, background image, font sizes
+  web_content jsonb, -- Web page slides: url, zoom, reload interval, fallback image
+  group_id uuid, -- Pages imported from one PDF share a group and are managed as a unit
+  group_title text,
+  page_number integer,
   title text default 'Untitled Announcement',
   display_duration integer default 10,
-  transition_type text default 'fade',
+  transition_type text default 'fade', -- 'fade' | 'slide' | 'push-up' | 'zoom' | 'wipe' | 'none'
+  transition_duration integer default 1000, -- in milliseconds
+  ken_burns boolean default false, -- Slow pan-and-zoom on still images
   active boolean default true,
-  order_index integer default 0
+  order_index integer default 0,
+  publish_at timestamp with time zone, -- Null = visible immediately
+  expire_at timestamp with time zone, -- Null = never expires
+  daypart_rules jsonb, -- Null = any day, any time
+  screen_ids uuid[] not null default '{}', -- Screens this item is assigned to
+  playback_mode text default 'duration', -- Videos: 'duration' | 'until_end' | 'repeat'
+  play_count integer default 1, -- Videos in 'repeat' mode: how many times to play
+  orientation text default 'any', -- 'any' | 'landscape' | 'portrait': which screens may play it
+  fit_mode text default 'contain', -- Media: 'contain' | 'cover' | 'stretch' | 'blur' | 'color'
+  fit_color text, -- Background for the 'color' fit mode
+  focal_x integer default 50, -- Percent from the left kept in view when 'cover' crops
+  focal_y integer default 50, -- Percent from the top
+  audio_enabled boolean default false, -- Videos: play with sound
+  volume integer default 100 -- Videos: percent, scaled by the screen's volume
 );
 
+-- Upgrade existing installs
+alter table public.announcements add column if not exists transition_duration integer default 1000;
+alter table public.announcements add column if not exists ken_burns boolean default false;
+alter table public.announcements add column if not exists publish_at timestamp with time zone;
+alter table public.announcements add column if not exists expire_at timestamp with time zone;
+alter table public.announcements add column if not exists daypart_rules jsonb;
+alter table public.announcements add column if not exists screen_ids uuid[] not null default '{}';
+alter table public.announcements add column if not exists playback_mode text default 'duration';
+alter table public.announcements add column if not exists play_count integer default 1;
+alter table public.announcements add column if not exists content_type text default 'media';
+alter table public.announcements add column if not exists text_content jsonb;
+alter table public.announcements add column if not exists web_content jsonb;
+alter table public.announcements add column if not exists group_id uuid;
+alter table public.announcements add column if not exists group_title text;
+alter table public.announcements add column if not exists page_number integer;
+alter table public.announcements add column if not exists orientation text default 'any';
+alter table public.announcements add column if not exists fit_mode text default 'contain';
+alter table public.announcements add column if not exists fit_color text;
+alter table public.announcements add column if not exists focal_x integer default 50;
+alter table public.announcements add column if not exists focal_y integer default 50;
+alter table public.announcements add column if not exists audio_enabled boolean default false;
+alter table public.announcements add column if not exists volume integer default 100;
+alter table public.announcements alter column image_url drop not null;
+
 -- Enable RLS for announcements
 alter table public.announcements enable row level security;
 
@@ -25,14 +70,262 @@ create table if not exists public.settings (
   id integer primary key default 1,
   refresh_interval integer default 5, -- in minutes
   default_duration integer default 10, -- in seconds
+  default_transition text default 'fade', -- Pre-selected for new uploads
+  ticker_speed integer default 8, -- Percent of the screen width scrolled per second
+  ticker_text_color text default '#ffffff',
+  ticker_background_color text default '#b91c1c',
+  ticker_position text default 'bottom', -- 'top' | 'bottom'
+  resume_after_minutes integer default 5, -- A display paused with the remote resumes after this long without a key press; 0 = never
   security_enabled boolean default false,
   admin_password text, -- Nullable to allow "Setup Mode" if blank
   constraint single_row check (id = 1)
 );
 
+alter table public.settings add column if not exists default_transition text default 'fade';
+alter table public.settings add column if not exists ticker_speed integer default 8;
+alter table public.settings add column if not exists ticker_text_color text default '#ffffff';
+alter table public.settings add column if not exists ticker_background_color text default '#b91c1c';
+alter table public.settings add column if not exists ticker_position text default 'bottom';
+alter table public.settings add column if not exists resume_after_minutes integer default 5;
+
 -- Enable RLS for settings
 alter table public.settings enable row level security;
 
+-- 1.3 Create the Screens Table (addressed from the display as /?screen=<slug>)
+create table if not exists public.screens (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  slug text not null unique,
+  name text not null
+);
+
+-- Screens mounted sideways or upside down: the display rotates its whole output (0, 90, 180 or 270 degrees clockwise)
+alter table public.screens add column if not exists rotation integer not null default 0;
+
+-- Master volume (percent) for videos with sound, and recurring hours in which the screen stays silent
+alter table public.screens add column if not exists volume integer not null default 100;
+alter table public.screens add column if not exists quiet_hours jsonb;
+
+-- Enable RLS for screens
+alter table public.screens enable row level security;
+
+-- 1.4 Create the Playlists Tables (ordered collections of announcements, attachable to screens)
+create table if not exists public.playlists (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  name text not null
+);
+
+create table if not exists public.playlist_items (
+  id uuid default gen_random_uuid() primary key,
+  playlist_id uuid not null references public.playlists(id) on delete cascade,
+  announcement_id uuid not null references public.announcements(id) on delete cascade,
+  order_index integer default 0,
+  unique (playlist_id, announcement_id)
+);
+
+-- A screen with a playlist plays it; otherwise it plays the items assigned to it directly
+alter table public.screens add column if not exists playlist_id uuid references public.playlists(id) on delete set null;
+
+-- Enable RLS for playlists
+alter table public.playlists enable row level security;
+alter table public.playlist_items enable row level security;
+
+-- 1.5 Create the Layouts Table (screen templates split into zones, in percent of the screen)
+create table if not exists public.layouts (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  name text not null,
+  zones jsonb not null default '[]' -- [{ key, name, x, y, width, height }]
+);
+
+-- The "main" zone plays the screen's own content; other zones play the playlist mapped to them
+alter table public.screens add column if not exists layout_id uuid references public.layouts(id) on delete set null;
+alter table public.screens add column if not exists zone_playlists jsonb not null default '{}'; -- { zoneKey: playlistId }
+
+-- Clock / date / countdown overlays drawn on top of the screen's content
+alter table public.screens add column if not exists widgets jsonb not null default '[]';
+
+-- Enable RLS for layouts
+alter table public.layouts enable row level security;
+
+-- 1.6 Create the Ticker Messages Table (short texts scrolling along the edge of every display)
+create table if not exists public.ticker_messages (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  text text not null,
+  active boolean default true,
+  order_index integer default 0,
+  publish_at timestamp with time zone, -- Null = visible immediately
+  expire_at timestamp with time zone -- Null = never expires
+);
+
+-- Enable RLS for ticker messages
+alter table public.ticker_messages enable row level security;
+
+-- 1.7 Create the Emergency Alerts Table (full-screen override on every display until cleared)
+create table if not exists public.emergency_alerts (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  title text not null,
+  message text default '',
+  background_color text default '#dc2626',
+  text_color text default '#ffffff',
+  flashing boolean default false, -- Slow visual pulse, no sound
+  active boolean default true, -- At most one alert is active at a time
+  cleared_at timestamp with time zone
+);
+
+-- Clearing an alert is stamped with the server's clock, like the rest of the timestamps
+create or replace function stamp_emergency_alert_cleared()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.active and not new.active then
+    new.cleared_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists emergency_alerts_cleared on public.emergency_alerts;
+create trigger emergency_alerts_cleared
+  before update on public.emergency_alerts
+  for each row execute function stamp_emergency_alert_cleared();
+
+-- Enable RLS for emergency alerts
+alter table public.emergency_alerts enable row level security;
+
+-- 1.8 Create the Play Logs Table (proof of play: one row per slide impression, uploaded in batches)
+create table if not exists public.play_logs (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  announcement_id uuid, -- No foreign key: logs outlive the announcements they describe
+  announcement_title text, -- Title at the time of playing
+  screen_slug text, -- Null = the default display (no ?screen=)
+  zone_key text default 'main',
+  started_at timestamp with time zone not null,
+  duration_ms integer not null, -- How long the slide was actually on screen
+  outcome text default 'completed' -- 'completed' | 'skipped' | 'error'
+);
+
+create index if not exists play_logs_started_at_idx on public.play_logs (started_at);
+
+-- Enable RLS for play logs
+alter table public.play_logs enable row level security;
+
+-- 1.9 Create the Display Devices Table (one row per browser running the display, kept fresh by heartbeats)
+create table if not exists public.display_devices (
+  id uuid primary key, -- Generated and remembered by the device itself
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  screen_slug text, -- Null = the default display (no ?screen=)
+  current_announcement_id uuid,
+  current_title text,
+  app_version text,
+  resolution text,
+  user_agent text,
+  wake_lock boolean default false,
+  paused boolean default false, -- Remote control state, see device_commands
+  blanked boolean default false,
+  audio_blocked boolean default false, -- The browser refuses to play sound until someone interacts with the page
+  last_error text,
+  recent_errors jsonb default '[]', -- Newest first: [{ "at": timestamp, "message": text }]
+  started_at timestamp with time zone, -- When the display page was last (re)loaded
+  last_seen_at timestamp with time zone default now() -- Set by the database on every heartbeat, see below
+);
+
+-- Upgrade existing installs: remote control state
+alter table public.display_devices add column if not exists paused boolean default false;
+alter table public.display_devices add column if not exists blanked boolean default false;
+alter table public.display_devices add column if not exists audio_blocked boolean default false;
+
+-- Heartbeats are stamped with the server's clock; a TV's own clock may be far off
+create or replace function stamp_display_device_seen()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.last_seen_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists display_devices_last_seen on public.display_devices;
+create trigger display_devices_last_seen
+  before insert or update on public.display_devices
+  for each row execute function stamp_display_device_seen();
+
+-- Enable RLS for display devices
+alter table public.display_devices enable row level security;
+
+-- 1.10 Create the Device Commands Table (remote control: the admin panel inserts, the device acknowledges)
+create table if not exists public.device_commands (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  device_id uuid references public.display_devices(id) on delete cascade not null,
+  command text not null, -- 'reload', 'goto', 'next', 'previous', 'pause', 'resume', 'blank', 'unblank', 'identify'
+  payload jsonb default '{}', -- e.g. { "announcement_id": ... } for 'goto', { "label": ... } for 'identify'
+  status text default 'pending' not null, -- 'pending', 'done' or 'failed'; pending past expires_at = expired
+  expires_at timestamp with time zone default (now() + interval '60 seconds') not null, -- Devices ignore commands they receive after this
+  acknowledged_at timestamp with time zone
+);
+
+-- Expiry is stamped by the database, so the clocks of the admin's computer and the TV don't matter
+alter table public.device_commands alter column expires_at set default (now() + interval '60 seconds');
+
+-- Acknowledgements are stamped by the database too, when a device first moves a command out of 'pending'
+create or replace function stamp_device_command_acknowledged()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'pending' and new.status <> 'pending' then
+    new.acknowledged_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists device_commands_acknowledged on public.device_commands;
+create trigger device_commands_acknowledged
+  before update on public.device_commands
+  for each row execute function stamp_device_command_acknowledged();
+
+create index if not exists device_commands_device_id_idx on public.device_commands (device_id, status);
+
+-- Enable RLS for device commands
+alter table public.device_commands enable row level security;
+
+-- 1.11 Create the Paired Displays Table (TVs registered with a pairing code; each holds its own token)
+create table if not exists public.paired_displays (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  name text not null,
+  screen_id uuid references public.screens(id) on delete set null, -- Null = the default display
+  device_id uuid, -- The device's heartbeat id (display_devices.id), for the dashboard and remote control
+  token_hash text not null unique, -- sha256 of the display token; the token itself is only ever stored on the TV
+  last_used_at timestamp with time zone,
+  revoked_at timestamp with time zone
+);
+
+-- Enable RLS for paired displays
+alter table public.paired_displays enable row level security;
+
+-- 1.12 Create the Pairing Codes Table (short-lived codes shown by unpaired TVs)
+-- Deliberately has no policies: it is only reachable through the pairing functions in section 3.
+create table if not exists public.display_pairing_codes (
+  code text primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  device_id uuid not null,
+  expires_at timestamp with time zone not null,
+  token text, -- Set when an admin pairs the code, handed to the TV once and then deleted
+  screen_slug text
+);
+
+-- Enable RLS for pairing codes
+alter table public.display_pairing_codes enable row level security;
+
 -- ==========================================
 -- 2. Row Level Security Policies
 -- ==========================================
@@ -83,6 +376,160 @@ on public.settings for insert
 to public
 with check ( true );
 
+-- Screens Policies
+drop policy if exists "Screens are viewable by everyone" on public.screens;
+drop policy if exists "Anyone can manage screens" on public.screens;
+
+create policy "Screens are viewable by everyone"
+on public.screens for select
+to public
+using ( true );
+
+create policy "Anyone can manage screens"
+on public.screens for all
+to public
+using ( true )
+with check ( true );
+
+-- Playlists Policies
+drop policy if exists "Playlists are viewable by everyone" on public.playlists;
+drop policy if exists "Anyone can manage playlists" on public.playlists;
+drop policy if exists "Playlist items are viewable by everyone" on public.playlist_items;
+drop policy if exists "Anyone can manage playlist items" on public.playlist_items;
+
+create policy "Playlists are viewable by everyone"
+on public.playlists for select
+to public
+using ( true );
+
+create policy "Anyone can manage playlists"
+on public.playlists for all
+to public
+using ( true )
+with check ( true );
+
+create policy "Playlist items are viewable by everyone"
+on public.playlist_items for select
+to public
+using ( true );
+
+create policy "Anyone can manage playlist items"
+on public.playlist_items for all
+to public
+using ( true )
+with check ( true );
+
+-- Layouts Policies
+drop policy if exists "Layouts are viewable by everyone" on public.layouts;
+drop policy if exists "Anyone can manage layouts" on public.layouts;
+
+create policy "Layouts are viewable by everyone"
+on public.layouts for select
+to public
+using ( true );
+
+create policy "Anyone can manage layouts"
+on public.layouts for all
+to public
+using ( true )
+with check ( true );
+
+-- Ticker Policies
+drop policy if exists "Ticker messages are viewable by everyone" on public.ticker_messages;
+drop policy if exists "Anyone can manage ticker messages" on public.ticker_messages;
+
+create policy "Ticker messages are viewable by everyone"
+on public.ticker_messages for select
+to public
+using ( true );
+
+create policy "Anyone can manage ticker messages"
+on public.ticker_messages for all
+to public
+using ( true )
+with check ( true );
+
+-- Emergency Alert Policies
+drop policy if exists "Emergency alerts are viewable by everyone" on public.emergency_alerts;
+drop policy if exists "Anyone can manage emergency alerts" on public.emergency_alerts;
+
+create policy "Emergency alerts are viewable by everyone"
+on public.emergency_alerts for select
+to public
+using ( true );
+
+create policy "Anyone can manage emergency alerts"
+on public.emergency_alerts for all
+to public
+using ( true )
+with check ( true );
+
+-- Play Log Policies (displays append, the admin panel reads)
+drop policy if exists "Play logs are viewable by everyone" on public.play_logs;
+drop policy if exists "Anyone can add play logs" on public.play_logs;
+
+create policy "Play logs are viewable by everyone"
+on public.play_logs for select
+to public
+using ( true );
+
+create policy "Anyone can add play logs"
+on public.play_logs for insert
+to public
+with check ( true );
+
+-- Display Device Policies (devices report themselves, the admin panel reads and removes them)
+drop policy if exists "Display devices are viewable by everyone" on public.display_devices;
+drop policy if exists "Anyone can manage display devices" on public.display_devices;
+
+create policy "Display devices are viewable by everyone"
+on public.display_devices for select
+to public
+using ( true );
+
+create policy "Anyone can manage display devices"
+on public.display_devices for all
+to public
+using ( true )
+with check ( true );
+
+-- Device Command Policies
+drop policy if exists "Device commands are viewable by everyone" on public.device_commands;
+drop policy if exists "Anyone can manage device commands" on public.device_commands;
+
+create policy "Device commands are viewable by everyone"
+on public.device_commands for select
+to public
+using ( true );
+
+create policy "Anyone can manage device commands"
+on public.device_commands for all
+to public
+using ( true )
+with check ( true );
+
+-- Paired Display Policies (tokens are only stored hashed)
+-- No update policy: renaming, reassigning and revoking go through the functions in section 3,
+-- so a revocation can't be undone and nobody can swap in a token hash of their own.
+drop policy if exists "Paired displays are viewable by everyone" on public.paired_displays;
+drop policy if exists "Anyone can update paired displays" on public.paired_displays;
+drop policy if exists "Anyone can delete paired displays" on public.paired_displays;
+
+create policy "Paired displays are viewable by everyone"
+on public.paired_displays for select
+to public
+using ( true );
+
+create policy "Anyone can delete paired displays"
+on public.paired_displays for delete
+to public
+using ( true );
+
+-- Everything but the token hash is readable
+revoke select, update on public.paired_displays from anon, authenticated;
+grant select (id, created_at, name, screen_id, device_id, last_used_at, revoked_at)
+on public.paired_displays to anon, authenticated;
+
 -- ==========================================
 -- 3. Functions (RPC) for Security
 -- ==========================================
@@ -92,6 +539,7 @@ create or replace function is_password_set()
 returns boolean
 language plpgsql
 security definer
+set search_path = public
 as $$
 declare
   has_pass boolean;
@@ -109,6 +557,7 @@ create or replace function verify_admin_password(attempt text)
 returns boolean
 language plpgsql
 security definer
+set search_path = public
 as $$
 declare
   is_correct boolean;
@@ -126,6 +575,7 @@ create or replace function change_admin_password(current_password text, new_pass
 returns boolean
 language plpgsql
 security definer
+set search_path = public
 as $$
 declare
   is_valid boolean;
@@ -146,6 +596,191 @@ begin
 end;
 $$;
 
+-- 3.4 Function to summarise play logs per announcement over a time range
+create or replace function get_play_stats(range_start timestamp with time zone, range_end timestamp with time zone)
+returns table (
+  announcement_id uuid,
+  title text,
+  plays bigint,
+  skipped bigint,
+  errors bigint,
+  total_ms bigint,
+  screens bigint,
+  last_played_at timestamp with time zone
+)
+language sql
+stable
+as $$
+  select
+    l.announcement_id,
+    coalesce(max(a.title), max(l.announcement_title)) as title,
+    count(*) filter (where l.outcome = 'completed') as plays, -- Full plays only; see skipped/errors for the rest
+    count(*) filter (where l.outcome = 'skipped') as skipped,
+    count(*) filter (where l.outcome = 'error') as errors,
+    coalesce(sum(l.duration_ms), 0) as total_ms,
+    count(distinct coalesce(l.screen_slug, '')) as screens,
+    max(l.started_at) as last_played_at
+  from public.play_logs l
+  left join public.announcements a on a.id = l.announcement_id
+  where l.started_at >= range_start and l.started_at < range_end
+  group by l.announcement_id
+  order by total_ms desc;
+$$;
+
+-- 3.5 Function for an unpaired TV to get a pairing code (replaces any earlier code of the same device)
+create or replace function request_pairing_code(device uuid)
+returns table (code text, expires_at timestamp with time zone)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; -- No 0/O or 1/I, they are easily misread
+  new_code text;
+begin
+  -- A code that was paired but not yet collected keeps its token: the TV may be just about to
+  -- claim it. Those are only cleaned up once they are a day past their expiry.
+  delete from public.display_pairing_codes c
+  where (c.token is null and (c.device_id = device or c.expires_at < now()))
+     or c.expires_at < now() - interval '1 day';
+
+  loop
+    new_code := '';
+    for i in 1..6 loop
+      new_code := new_code || substr(alphabet, 1 + floor(random() * length(alphabet))::int, 1);
+    end loop;
+    exit when not exists (select 1 from public.display_pairing_codes c where c.code = new_code);
+  end loop;
+
+  insert into public.display_pairing_codes (code, device_id, expires_at)
+  values (new_code, device, now() + interval '15 minutes');
+
+  return query select new_code, now() + interval '15 minutes';
+end;
+$$;
+
+-- 3.6 Function for the admin panel to pair the TV showing `pairing_code`. Returns the new paired display id,
+-- or null when the code is unknown or expired.
+create or replace function pair_display(pairing_code text, display_name text, target_screen uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pending public.display_pairing_codes;
+  new_token text;
+  new_id uuid;
+begin
+  select * into pending
+  from public.display_pairing_codes c
+  where c.code = upper(trim(pairing_code)) and c.expires_at > now() and c.token is null;
+
+  if not found then
+    return null;
+  end if;
+
+  new_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  insert into public.paired_displays (name, screen_id, device_id, token_hash)
+  values (display_name, target_screen, pending.device_id, encode(sha256(convert_to(new_token, 'UTF8')), 'hex'))
+  returning id into new_id;
+
+  update public.display_pairing_codes c
+  set token = new_token,
+      screen_slug = (select s.slug from public.screens s where s.id = target_screen)
+  where c.code = pending.code;
+
+  return new_id;
+end;
+$$;
+
+-- 3.7 Function for the TV to collect its token once it has been paired (empty until then)
+create or replace function claim_display_token(device uuid, pairing_code text)
+returns table (token text, screen_slug text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with claimed as (
+    delete from public.display_pairing_codes c
+    where c.code = pairing_code and c.device_id = device and c.token is not null
+    returning c.token, c.screen_slug
+  )
+  select claimed.token, claimed.screen_slug from claimed;
+end;
+$$;
+
+-- 3.8 Function for a paired TV to check its token on start-up (empty when revoked or unknown)
+create or replace function verify_display_token(display_token text)
+returns table (name text, screen_slug text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with used as (
+    update public.paired_displays d
+    set last_used_at = now()
+    where d.token_hash = encode(sha256(convert_to(display_token, 'UTF8')), 'hex') and d.revoked_at is null
+    returning d.name, d.screen_id
+  )
+  select used.name, s.slug from used left join public.screens s on s.id = used.screen_id;
+end;
+$$;
+
+-- 3.9 Function for a device to fetch its commands that are still pending, judged by the server's clock
+create or replace function get_pending_commands(device uuid)
+returns setof public.device_commands
+language sql
+stable
+as $$
+  select *
+  from public.device_commands c
+  where c.device_id = device and c.status = 'pending' and c.expires_at > now()
+  order by c.created_at;
+$$;
+
+-- 3.10 Function for the admin panel to rename a paired display
+create or replace function rename_paired_display(display uuid, display_name text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.paired_displays d
+  set name = display_name
+  where d.id = display;
+$$;
+
+-- 3.11 Function for the admin panel to change what a paired display plays (null = the default display)
+create or replace function set_paired_display_screen(display uuid, target_screen uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.paired_displays d
+  set screen_id = target_screen
+  where d.id = display and d.revoked_at is null;
+$$;
+
+-- 3.12 Function for the admin panel to revoke a paired display's token. One way: a revoked
+-- display keeps its original revocation time and can only be paired again with a new code.
+create or replace function revoke_paired_display(display uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.paired_displays d
+  set revoked_at = coalesce(d.revoked_at, now())
+  where d.id = display;
+$$;
+
 -- ==========================================
 -- 4. Initial Data
 -- ==========================================
@@ -175,3 +810,22 @@ create policy "Public Upload"
 on storage.objects for insert
 to public
 with check ( bucket_id = 'announcements' );
+
+-- ==========================================
+-- 6. Realtime
+-- ==========================================
+
+-- Displays subscribe to these tables so edits show up immediately (polling remains as a fallback)
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['announcements', 'settings', 'screens', 'playlist_items', 'layouts', 'ticker_messages', 'emergency_alerts', 'device_commands'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
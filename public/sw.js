@@ -0,0 +1,171 @@
+// Service worker for the display board.
+// - App shell (pages + hashed /_astro/ bundles) so the display can reload without a network.
+// - Media cache, filled and garbage-collected by the display whenever a new playlist arrives.
+
+const SHELL_CACHE = 'display-shell-v1';
+const MEDIA_CACHE = 'display-media-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter((key) => key !== SHELL_CACHE && key !== MEDIA_CACHE)
+        .map((key) => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// Keep exactly the given media URLs in the cache: fetch what is missing, drop the rest
+async function syncMedia(urls) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const wanted = new Set(urls);
+  const cachedRequests = await cache.keys();
+  const cachedUrls = new Set(cachedRequests.map((request) => request.url));
+
+  await Promise.all(
+    cachedRequests
+      .filter((request) => !wanted.has(request.url))
+      .map((request) => cache.delete(request))
+  );
+
+  let failed = 0;
+  for (const url of wanted) {
+    if (cachedUrls.has(url)) continue;
+    try {
+      const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await cache.put(url, response);
+    } catch (err) {
+      failed++;
+      console.warn('[sw] Failed to cache media', url, err);
+    }
+  }
+  return { cached: wanted.size - failed, failed };
+}
+
+// The first page load (and its bundles) happens before this worker controls the page, so the
+// page sends its own URLs once the worker is active; a TV that restarts offline needs them
+async function precacheShell(urls) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    try {
+      const response = await fetch(url, { credentials: 'same-origin' });
+      if (response.ok) await cache.put(url, response);
+    } catch (err) {
+      console.warn('[sw] Failed to cache app shell', url, err);
+    }
+  }
+}
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'PRECACHE_SHELL') {
+    event.waitUntil(precacheShell(event.data.urls || []));
+    return;
+  }
+
+  if (event.data?.type !== 'SYNC_MEDIA') return;
+
+  event.waitUntil(
+    syncMedia(event.data.urls || []).then((result) => {
+      event.source?.postMessage({ type: 'MEDIA_SYNCED', ...result });
+    })
+  );
+});
+
+// <video> asks for byte ranges; answer them from the full cached body
+async function rangeResponse(request, cached) {
+  const range = request.headers.get('range');
+  const match = /bytes=(\d*)-(\d*)/.exec(range || '');
+  if (!match) return cached;
+
+  const blob = await cached.blob();
+  const last = blob.size - 1;
+  let start;
+  let end;
+
+  if (match[1] === '') {
+    // Suffix range: bytes=-N is the last N bytes
+    if (match[2] === '') return cached;
+    start = Math.max(blob.size - Number(match[2]), 0);
+    end = last;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), last) : last;
+  }
+
+  if (start > last || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || blob.type,
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function fromMediaCache(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+  return request.headers.has('range') ? rangeResponse(request, cached) : cached;
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    // ?screen=lobby and ?screen=cafeteria share the same page
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirstAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin && (url.pathname.startsWith('/_astro/') || url.pathname === '/favicon.png')) {
+    event.respondWith(cacheFirstAsset(request));
+    return;
+  }
+
+  // Uploaded media lives in Supabase Storage
+  if (url.pathname.includes('/storage/v1/object/public/')) {
+    event.respondWith(fromMediaCache(request));
+  }
+});
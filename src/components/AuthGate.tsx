@@ -5,8 +5,12 @@ import { Input } from './ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from './ui/card';
 import { Lock, Loader2, PlayCircle, Eye, EyeOff } from 'lucide-react';
 import { Toaster, toast } from 'react-hot-toast';
+import { forgetPairing, getDisplayToken, rememberPairing, verifyDisplayToken } from '../lib/pairing';
+import PairingScreen from './PairingScreen';
 
 export const IS_AUTHENTICATED_KEY = 'display_board_auth';
+// Last known value of settings.security_enabled, so an offline reload doesn't lock the display
+const SECURITY_ENABLED_KEY = 'display_board_security_enabled';
 
 // Helper for Password Input
 function PasswordInput(props: React.ComponentProps<typeof Input>) {
@@ -33,9 +37,10 @@ function PasswordInput(props: React.ComponentProps<typeof Input>) {
 interface AuthGateProps {
   children: React.ReactNode;
   requireAuth?: boolean; 
+  allowPairing?: boolean; // Display pages: accept a paired display token and offer pairing instead of the password
 }
 
-export default function AuthGate({ children }: AuthGateProps) {
+export default function AuthGate({ children, allowPairing = false }: AuthGateProps) {
   const [loading, setLoading] = useState(true);
   const [isLocked, setIsLocked] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -43,6 +48,9 @@ export default function AuthGate({ children }: AuthGateProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [verifying, setVerifying] = useState(false);
+  // Locked displays show a pairing code first; /?pair shows it even when the board is open
+  const [isPairing, setIsPairing] = useState(false);
+  const [securityEnabled, setSecurityEnabled] = useState(true);
 
   useEffect(() => {
     checkSecurity();
@@ -58,6 +66,28 @@ export default function AuthGate({ children }: AuthGateProps) {
       
       if (error) throw error;
 
+      localStorage.setItem(SECURITY_ENABLED_KEY, String(!!settings?.security_enabled));
+      setSecurityEnabled(!!settings?.security_enabled);
+
+      // A paired TV unlocks with its own token, and learns which screen it plays
+      const displayToken = allowPairing ? getDisplayToken() : null;
+      if (displayToken) {
+        const pairing = await verifyDisplayToken(displayToken);
+        if (pairing) {
+          rememberPairing(displayToken, pairing.screen_slug);
+          setIsLocked(false);
+          return;
+        }
+        // Revoked in the admin panel
+        forgetPairing();
+      }
+
+      if (allowPairing && new URLSearchParams(window.location.search).has('pair')) {
+        setIsLocked(true);
+        setIsPairing(true);
+        return;
+      }
+
       if (!settings?.security_enabled) {
         setIsLocked(false);
         setLoading(false);
@@ -87,10 +117,15 @@ export default function AuthGate({ children }: AuthGateProps) {
       } else {
          setIsLocked(true);
          setIsAuthenticated(false);
+         setIsPairing(allowPairing);
       }
     } catch (err) {
       console.error('Auth Check Error:', err);
-      setIsLocked(true); 
+      // Offline: trust the last known state instead of locking out a display that was working
+      const wasOpen = localStorage.getItem(SECURITY_ENABLED_KEY) === 'false'
+        || localStorage.getItem(IS_AUTHENTICATED_KEY) === 'true'
+        || (allowPairing && !!getDisplayToken());
+      setIsLocked(!wasOpen); 
     } finally {
       setLoading(false);
     }
@@ -160,6 +195,28 @@ export default function AuthGate({ children }: AuthGateProps) {
     );
   }
 
+  // Pairing Mode
+  if (isLocked && isPairing) {
+    const handlePaired = () => {
+      // Drop ?pair so a reload plays content instead of asking to pair again
+      const url = new URL(window.location.href);
+      url.searchParams.delete('pair');
+      window.history.replaceState(null, '', url);
+      // The TV has its own token now; it shouldn't keep an admin login around
+      localStorage.removeItem(IS_AUTHENTICATED_KEY);
+
+      setIsPairing(false);
+      setIsLocked(false);
+    };
+
+    return (
+      <PairingScreen
+        onPaired={handlePaired}
+        onUsePassword={securityEnabled && !isSetupMode ? () => setIsPairing(false) : undefined}
+      />
+    );
+  }
+
   // Setup Mode
   if (isLocked && isSetupMode) {
     return (
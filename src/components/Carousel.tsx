@@ -0,0 +1,346 @@
+import React, { useEffect, useState, useRef, useMemo, useImperativeHandle } from 'react';
+import { findPlayableIndex, isWithinSchedule } from '../lib/schedule';
+import { getTargetPlays, playsToEnd } from '../lib/media';
+import { getTransitionDuration, getTransitionStyle, type SlideDirection } from '../lib/transitions';
+import type { SlideImpression } from '../lib/playLogs';
+import type { Announcement, PlayOutcome } from '../types';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Slide from './Slide';
+
+// How often scheduling windows are re-checked between polls
+const SCHEDULE_TICK_MS = 30 * 1000;
+// Extra time a play-to-end video gets before we assume it stalled and move on
+const VIDEO_WATCHDOG_GRACE_MS = 15 * 1000;
+// How long we wait for the next slide to preload before transitioning anyway
+const PRELOAD_TIMEOUT_MS = 5 * 1000;
+
+// Lets the display steer a carousel remotely (see lib/commands)
+export interface CarouselHandle {
+  next: () => void;
+  previous: () => void;
+  show: (id: string) => boolean; // False when the item isn't in this carousel or not currently playable
+  showIndex: (position: number) => boolean; // 0-based among the slides playable right now; false past the end
+  playableCount: () => number;
+}
+
+interface CarouselProps {
+  ref?: React.Ref<CarouselHandle>;
+  items: Announcement[];
+  showControls?: boolean; // Prev/next buttons and dots, revealed when hovering the display
+  empty?: React.ReactNode; // Rendered while nothing in `items` is playable
+  onImpression?: (impression: SlideImpression) => void; // Called whenever a slide leaves the screen
+  onShow?: (item: Announcement | null) => void; // Called whenever a different slide comes on screen
+  paused?: boolean; // Stay on the current slide until resumed; manual navigation still works
+  volume?: number; // Master volume (0–1) for videos with sound; 0 keeps every video muted
+}
+
+// Plays one list of announcements in a loop. The display runs one carousel per layout zone,
+// each with its own timer, so zones advance independently of each other.
+export default function Carousel({ ref, items, showControls = false, empty = null, onImpression, onShow, paused = false, volume = 0 }: CarouselProps) {
+  const [announcements, setAnnouncements] = useState(items);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+  const [pendingIndex, setPendingIndex] = useState<number | null>(null);
+  const [leavingId, setLeavingId] = useState<string | null>(null);
+  const [direction, setDirection] = useState<SlideDirection>('forward');
+  const [readyIds, setReadyIds] = useState<Set<string>>(() => new Set());
+  // Real lengths (seconds) of the videos that have loaded, for the play-to-end watchdog
+  const [videoDurations, setVideoDurations] = useState<Record<string, number>>({});
+  const slideStartedAtRef = useRef(Date.now());
+  const lastShownIdRef = useRef<string | null>(null);
+  const playsRef = useRef(0);
+
+  // Proof of play: the slide on screen, why it is about to leave, and slides whose media failed
+  const impressionRef = useRef<{ item: Announcement; startedAt: number } | null>(null);
+  const leaveOutcomeRef = useRef<PlayOutcome>('skipped');
+  const failedIdsRef = useRef(new Set<string>());
+  const onImpressionRef = useRef(onImpression);
+  onImpressionRef.current = onImpression;
+  const onShowRef = useRef(onShow);
+  onShowRef.current = onShow;
+
+  // Swap in a new list without disturbing the slide that is on screen right now
+  if (items !== announcements) {
+    const currentId = announcements[currentIndex]?.id;
+    const keptIndex = items.findIndex(item => item.id === currentId);
+    setAnnouncements(items);
+    setPendingIndex(null);
+    setCurrentIndex(keptIndex >= 0 ? keptIndex : Math.min(currentIndex, Math.max(items.length - 1, 0)));
+  }
+
+  // Re-evaluate scheduling windows between polls
+  useEffect(() => {
+    const tick = setInterval(() => setNow(new Date()), SCHEDULE_TICK_MS);
+    return () => clearInterval(tick);
+  }, []);
+
+  const playableIndexes = useMemo(
+    () => announcements.flatMap((item, index) => (isWithinSchedule(item, now) ? [index] : [])),
+    [announcements, now]
+  );
+
+  // Move off the current item as soon as it falls outside its window
+  useEffect(() => {
+    if (playableIndexes.length === 0 || playableIndexes.includes(currentIndex)) return;
+    setCurrentIndex(findPlayableIndex(announcements, currentIndex, 1, now));
+  }, [playableIndexes]);
+
+  const endImpression = (outcome: PlayOutcome) => {
+    const shown = impressionRef.current;
+    impressionRef.current = null;
+    if (!shown) return;
+
+    const failed = failedIdsRef.current.delete(shown.item.id);
+    onImpressionRef.current?.({
+      item: shown.item,
+      startedAt: shown.startedAt,
+      durationMs: Date.now() - shown.startedAt,
+      outcome: failed ? 'error' : outcome,
+    });
+  };
+
+  // Restart the clock only when a different item comes on screen, not when the list is refreshed
+  const currentId = announcements[currentIndex]?.id;
+  useEffect(() => {
+    // Anything that didn't go through goTo (schedule ended, item removed) cut the slide short
+    endImpression(leaveOutcomeRef.current);
+    leaveOutcomeRef.current = 'skipped';
+
+    slideStartedAtRef.current = Date.now();
+    playsRef.current = 0;
+    const item = announcements[currentIndex];
+    impressionRef.current = item ? { item, startedAt: slideStartedAtRef.current } : null;
+    onShowRef.current?.(item ?? null);
+  }, [currentId]);
+
+  // Whatever is on screen when the carousel goes away (e.g. an emergency alert) was cut short
+  useEffect(() => () => endImpression('skipped'), []);
+
+  // Keep the outgoing slide mounted until its exit transition has finished
+  useEffect(() => {
+    const previousId = lastShownIdRef.current;
+    lastShownIdRef.current = currentId ?? null;
+    if (!previousId || previousId === currentId) return;
+
+    setLeavingId(previousId);
+    const timer = setTimeout(() => setLeavingId(null), getTransitionDuration(announcements[currentIndex]));
+    return () => clearTimeout(timer);
+  }, [currentId]);
+
+  // Switch to the requested slide once it has preloaded (or we've waited long enough)
+  useEffect(() => {
+    if (pendingIndex === null) return;
+
+    const pendingItem = announcements[pendingIndex];
+    const commit = () => {
+      if (pendingItem) setCurrentIndex(pendingIndex);
+      setPendingIndex(null);
+    };
+
+    if (!pendingItem || readyIds.has(pendingItem.id)) {
+      commit();
+      return;
+    }
+
+    const fallback = setTimeout(commit, PRELOAD_TIMEOUT_MS);
+    return () => clearTimeout(fallback);
+  }, [pendingIndex, readyIds, announcements]);
+
+  // Only the outgoing, current, upcoming and explicitly requested slides are mounted
+  const nextIndex = playableIndexes.length > 1 ? findPlayableIndex(announcements, currentIndex, 1, now) : -1;
+  const mountedIds = new Set(
+    [leavingId, currentId, announcements[nextIndex]?.id, pendingIndex !== null ? announcements[pendingIndex]?.id : null]
+      .filter((id): id is string => !!id)
+  );
+  const mountedKey = Array.from(mountedIds).sort().join(',');
+
+  // Forget readiness of slides that were unmounted; they will preload again when remounted
+  useEffect(() => {
+    setReadyIds(prev => {
+      const kept = new Set(Array.from(prev).filter(id => mountedIds.has(id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [mountedKey]);
+
+  const markReady = (id: string) => {
+    setReadyIds(prev => (prev.has(id) ? prev : new Set(prev).add(id)));
+  };
+
+  const markDuration = (id: string, seconds: number) => {
+    setVideoDurations(prev => (prev[id] === seconds ? prev : { ...prev, [id]: seconds }));
+  };
+
+  const markFailed = (id: string) => {
+    failedIdsRef.current.add(id);
+  };
+
+  const goTo = (index: number, nextDirection: SlideDirection = 'forward', outcome: PlayOutcome = 'skipped') => {
+    if (index < 0 || index === currentIndex) return;
+    leaveOutcomeRef.current = outcome;
+    setDirection(nextDirection);
+    setPendingIndex(index);
+  };
+
+  // A resumed slide gets its full time again rather than advancing at once
+  useEffect(() => {
+    if (!paused) slideStartedAtRef.current = Date.now();
+  }, [paused]);
+
+  // Cycle logic
+  useEffect(() => {
+    if (paused || playableIndexes.length <= 1) return;
+
+    const currentAnnouncement = announcements[currentIndex];
+    let duration = (currentAnnouncement?.display_duration || 10) * 1000;
+
+    // Play-to-end videos advance on `ended`; this timer is only a watchdog for stalled playback.
+    // It goes by the video's real length; the stored duration may be a default of 10s.
+    if (currentAnnouncement && playsToEnd(currentAnnouncement)) {
+      const videoSeconds = videoDurations[currentAnnouncement.id];
+      if (videoSeconds) duration = videoSeconds * 1000;
+      duration = duration * getTargetPlays(currentAnnouncement) + VIDEO_WATCHDOG_GRACE_MS;
+    }
+
+    const remaining = Math.max(duration - (Date.now() - slideStartedAtRef.current), 0);
+
+    const timer = setTimeout(() => {
+      // For play-to-end videos this is the stall watchdog, so the play didn't complete
+      const outcome = currentAnnouncement && playsToEnd(currentAnnouncement) ? 'error' : 'completed';
+      goTo(findPlayableIndex(announcements, currentIndex, 1), 'forward', outcome);
+    }, remaining);
+
+    return () => clearTimeout(timer);
+  }, [currentIndex, playableIndexes, paused, videoDurations[announcements[currentIndex]?.id]]);
+
+  // A lone slide never leaves the screen, so count one impression per display duration
+  useEffect(() => {
+    if (playableIndexes.length !== 1) return;
+
+    const timer = setInterval(() => {
+      const shown = impressionRef.current;
+      endImpression('completed');
+      if (shown) impressionRef.current = { item: shown.item, startedAt: Date.now() };
+    }, (announcements[currentIndex]?.display_duration || 10) * 1000);
+
+    return () => clearInterval(timer);
+  }, [currentIndex, playableIndexes]);
+
+  useImperativeHandle(ref, () => ({
+    next: () => goTo(findPlayableIndex(announcements, currentIndex, 1)),
+    previous: () => goTo(findPlayableIndex(announcements, currentIndex, -1), 'backward'),
+    show: (id: string) => {
+      const index = announcements.findIndex(item => item.id === id);
+      if (!playableIndexes.includes(index)) return false;
+      goTo(index, index < currentIndex ? 'backward' : 'forward');
+      return true;
+    },
+    showIndex: (position: number) => {
+      const index = playableIndexes[position];
+      if (index === undefined) return false;
+      goTo(index, index < currentIndex ? 'backward' : 'forward');
+      return true;
+    },
+    playableCount: () => playableIndexes.length,
+  }));
+
+  if (playableIndexes.length === 0) {
+    return <>{empty}</>;
+  }
+
+  const currentItem = announcements[currentIndex];
+
+  // The incoming slide animates in on top; the outgoing one animates out underneath.
+  // Slides that are only mounted to preload stay invisible.
+  const getLayer = (item: Announcement, index: number): { className: string; style?: React.CSSProperties } => {
+    if (index === currentIndex) {
+      return { className: 'z-10', style: getTransitionStyle(item, direction, 'enter') ?? undefined };
+    }
+    if (item.id === leavingId && currentItem) {
+      const exitStyle = getTransitionStyle(currentItem, direction, 'exit');
+      if (exitStyle) return { className: 'z-0', style: exitStyle };
+    }
+    return { className: 'invisible' };
+  };
+
+  const handleVideoEnded = (item: Announcement, video: HTMLVideoElement) => {
+    if (item.id !== announcements[currentIndex]?.id || !playsToEnd(item)) return;
+
+    playsRef.current += 1;
+    const nextIndex = findPlayableIndex(announcements, currentIndex, 1);
+
+    // Not done yet, paused, or nothing else to show: play it again
+    if (playsRef.current < getTargetPlays(item) || paused || nextIndex === currentIndex) {
+      if (playsRef.current >= getTargetPlays(item)) playsRef.current = 0;
+      video.currentTime = 0;
+      video.play().catch(() => {});
+      return;
+    }
+
+    goTo(nextIndex, 'forward', 'completed');
+  };
+
+  const handlePrev = () => {
+    goTo(findPlayableIndex(announcements, currentIndex, -1), 'backward');
+  };
+
+  const handleNext = () => {
+    goTo(findPlayableIndex(announcements, currentIndex, 1));
+  };
+
+  return (
+    <div className="relative h-full w-full overflow-hidden">
+      {announcements.map((item, index) => {
+        if (!mountedIds.has(item.id)) return null;
+        const layer = getLayer(item, index);
+
+        return (
+        <div
+          key={item.id}
+          className={`absolute inset-0 flex items-center justify-center overflow-hidden ${layer.className}`}
+          style={layer.style}
+        >
+            <Slide
+                item={item}
+                isActive={index === currentIndex}
+                isLeaving={item.id === leavingId}
+                volume={volume}
+                onReady={markReady}
+                onError={markFailed}
+                onDuration={markDuration}
+                onEnded={handleVideoEnded}
+            />
+        </div>
+        );
+      })}
+
+      {/* Navigation Controls */}
+      {showControls && (
+      <div className="absolute bottom-10 left-0 right-0 z-50 flex items-center justify-center gap-6 opacity-0 transition-opacity duration-300 group-hover:opacity-100">
+        <button
+            onClick={handlePrev}
+            className="rounded-full bg-black/30 p-2 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
+        >
+            <ChevronLeft className="h-6 w-6" />
+        </button>
+
+        <div className="flex gap-2">
+            {playableIndexes.map((idx) => (
+            <button
+                key={idx}
+                onClick={() => goTo(idx, idx < currentIndex ? 'backward' : 'forward')}
+                className={`h-2.5 w-2.5 rounded-full transition-all duration-300 ${idx === currentIndex ? 'bg-white scale-110' : 'bg-white/30 hover:bg-white/50'}`}
+            />
+            ))}
+        </div>
+
+        <button
+            onClick={handleNext}
+            className="rounded-full bg-black/30 p-2 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
+        >
+            <ChevronRight className="h-6 w-6" />
+        </button>
+      </div>
+      )}
+    </div>
+  );
+}
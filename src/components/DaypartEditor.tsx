@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { summarizeDayparts, WEEKDAY_ORDER, WEEKDAY_LABELS } from '../lib/schedule';
+import type { DaypartRule } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, Check, X, Clock } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+const DEFAULT_DAYPART_RULE: DaypartRule = { days: [1, 2, 3, 4, 5], ranges: [{ start: '09:00', end: '17:00' }] };
+
+interface DaypartEditorProps {
+  id: string;
+  initialRules: DaypartRule[] | null;
+  onSave: (id: string, rules: DaypartRule[] | null) => void;
+  defaultRule?: DaypartRule; // Filled in when editing starts with no rules
+  label?: string; // Shown before the summary
+  emptyLabel?: string; // Summary shown when there are no rules
+  title?: string;
+}
+
+// Inline editor for recurring weekday/time-range rules, e.g. an item's dayparting or a screen's quiet hours
+export default function DaypartEditor({ id, initialRules, onSave, defaultRule = DEFAULT_DAYPART_RULE, label, emptyLabel, title = 'Edit recurring hours' }: DaypartEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [rules, setRules] = useState<DaypartRule[]>([]);
+
+  const startEditing = () => {
+    setRules(initialRules && initialRules.length > 0 ? initialRules : [defaultRule]);
+    setIsEditing(true);
+  };
+
+  const updateRule = (ruleIdx: number, rule: DaypartRule) => {
+    setRules(prev => prev.map((r, i) => (i === ruleIdx ? rule : r)));
+  };
+
+  const toggleDay = (ruleIdx: number, day: number) => {
+    const rule = rules[ruleIdx];
+    const days = rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day];
+    updateRule(ruleIdx, { ...rule, days });
+  };
+
+  const handleSave = () => {
+    const cleaned = rules.filter(r => r.days.length > 0 && r.ranges.length > 0);
+    if (cleaned.some(r => r.ranges.some(range => !range.start || !range.end || range.start === range.end))) {
+      toast.error('Each time range needs a different start and end');
+      return;
+    }
+    onSave(id, cleaned.length > 0 ? cleaned : null);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2 rounded-md border bg-slate-50 p-2">
+        {rules.map((rule, ruleIdx) => (
+          <div key={ruleIdx} className="space-y-1.5 rounded border bg-white p-2">
+            <div className="flex items-center gap-1">
+              {WEEKDAY_ORDER.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(ruleIdx, day)}
+                  className={`h-6 w-8 rounded text-[10px] font-medium transition-colors ${
+                    rule.days.includes(day) ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              ))}
+              <Button 
+                size="icon" 
+                variant="ghost" 
+                className="ml-auto h-6 w-6 text-slate-400 hover:text-red-600"
+                onClick={() => setRules(prev => prev.filter((_, i) => i !== ruleIdx))}
+                title="Remove rule"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            {rule.ranges.map((range, rangeIdx) => (
+              <div key={rangeIdx} className="flex items-center gap-1">
+                <Input 
+                  type="time"
+                  value={range.start}
+                  onChange={(e) => updateRule(ruleIdx, { ...rule, ranges: rule.ranges.map((r, i) => i === rangeIdx ? { ...r, start: e.target.value } : r) })}
+                  className="h-6 w-24 text-xs px-2 py-0"
+                />
+                <span>–</span>
+                <Input 
+                  type="time"
+                  value={range.end}
+                  onChange={(e) => updateRule(ruleIdx, { ...rule, ranges: rule.ranges.map((r, i) => i === rangeIdx ? { ...r, end: e.target.value } : r) })}
+                  className="h-6 w-24 text-xs px-2 py-0"
+                />
+                <Button 
+                  size="icon" 
+                  variant="ghost" 
+                  className="h-6 w-6 text-slate-400"
+                  onClick={() => updateRule(ruleIdx, { ...rule, ranges: rule.ranges.filter((_, i) => i !== rangeIdx) })}
+                  title="Remove time range"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="text-[11px] text-blue-600 hover:underline"
+              onClick={() => updateRule(ruleIdx, { ...rule, ranges: [...rule.ranges, { start: '17:00', end: '21:00' }] })}
+            >
+              + Add time range
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" className="h-6 text-xs" onClick={() => setRules(prev => [...prev, defaultRule])}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add rule
+          </Button>
+          <span className="flex-1 truncate text-slate-400">{summarizeDayparts(rules)}</span>
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 group/dayparts">
+      <span>
+        {label && `${label}: `}
+        {emptyLabel && !initialRules?.length ? emptyLabel : summarizeDayparts(initialRules)}
+      </span>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/dayparts:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title={title}
+      >
+        <Clock className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
@@ -1,14 +1,90 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-import type { Announcement } from '../types';
-import { ChevronLeft, ChevronRight, Settings, Loader2 } from 'lucide-react';
+import { getRequestedScreenSlug } from '../lib/screens';
+import { fetchDisplayContent, mergeAnnouncements, type DisplayContent } from '../lib/playlist';
+import { subscribeToDisplayChanges } from '../lib/realtime';
+import { MAIN_ZONE_KEY, getZoneStyle } from '../lib/layouts';
+import { fitsOrientation, getRotationStyle, getScreenOrientation } from '../lib/orientation';
+import { getMediaUrls } from '../lib/media';
+import { DEFAULT_TICKER_STYLE, type TickerStyle } from '../lib/ticker';
+import { loadManifest, registerDisplayServiceWorker, saveManifest, syncMediaCache } from '../lib/offline';
+import { recordImpression, startPlayLogUploads, type SlideImpression } from '../lib/playLogs';
+import { APP_VERSION, getDeviceId, noteContentLoaded, noteDisplayError, sendHeartbeatNow, startHeartbeats } from '../lib/heartbeat';
+import { INFO_OVERLAY_MS, getKeyAction, getResumeDelayMs } from '../lib/keys';
+import { COMMAND_POLL_MS, acknowledgeCommand, fetchPendingCommands, subscribeToCommands } from '../lib/commands';
+import { DEFAULT_SCREEN_AUDIO, getMasterVolume, isAudioBlocked, subscribeToAudioBlocked, unlockAudio, type ScreenAudio } from '../lib/audio';
+import { EMERGENCY_POLL_MS, fetchActiveAlert, loadRememberedAlert, rememberAlert, subscribeToEmergencyAlerts } from '../lib/emergency';
+import { describeError } from '../lib/utils';
+import type { Announcement, DeviceCommand, EmergencyAlert, Layout, ScreenOrientation, ScreenRotation, ScreenWidget, TickerMessage } from '../types';
+import { Settings, Loader2, WifiOff, Pause, VolumeX } from 'lucide-react';
+import Carousel, { type CarouselHandle } from './Carousel';
+import Ticker from './Ticker';
+import WidgetOverlay from './WidgetOverlay';
+import EmergencyOverlay from './EmergencyOverlay';
+
+// Bursts of realtime events (e.g. saving a new order) collapse into one refetch
+const REALTIME_DEBOUNCE_MS = 500;
+
+// Stable fallback for zones without content, so their carousel isn't reset on every render
+const NO_ITEMS: Announcement[] = [];
+
+// How long the "identify" command shows the screen name
+const IDENTIFY_MS = 10 * 1000;
+
+// How often quiet hours are re-checked
+const QUIET_HOURS_TICK_MS = 30 * 1000;
+
+// How long feedback for a remote key press (e.g. "Paused") stays on screen
+const KEY_FEEDBACK_MS = 1500;
 
 export default function Display() {
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [layout, setLayout] = useState<Layout | null>(null);
+  const [zones, setZones] = useState<Record<string, Announcement[]>>({});
+  const [widgets, setWidgets] = useState<ScreenWidget[]>([]);
+  const [tickerMessages, setTickerMessages] = useState<TickerMessage[]>([]);
+  const [tickerStyle, setTickerStyle] = useState<TickerStyle>(DEFAULT_TICKER_STYLE);
+  const [rotation, setRotation] = useState<ScreenRotation>(0);
+  const [orientation, setOrientation] = useState<ScreenOrientation>(() => getScreenOrientation(0));
+  const [audio, setAudio] = useState<ScreenAudio>(DEFAULT_SCREEN_AUDIO);
+  const [masterVolume, setMasterVolume] = useState(0);
+  const [audioBlocked, setAudioBlocked] = useState(isAudioBlocked);
   const [loading, setLoading] = useState(true);
   const [refreshInterval, setRefreshInterval] = useState(5); // Default 5 mins
+  const [missingScreen, setMissingScreen] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [emergencyAlert, setEmergencyAlert] = useState<EmergencyAlert | null>(() => loadRememberedAlert());
+  // Remote control state (see lib/commands)
+  const [paused, setPaused] = useState(false);
+  const [blanked, setBlanked] = useState(false);
+  const [identifyLabel, setIdentifyLabel] = useState<string | null>(null);
+  // Keyboard / TV remote state (see lib/keys)
+  const [keyPaused, setKeyPaused] = useState(false); // Paused with the remote; resumes by itself when left alone
+  const [keyFeedback, setKeyFeedback] = useState<string | null>(null);
+  const [showInfo, setShowInfo] = useState(false);
+  const [resumeAfterMinutes, setResumeAfterMinutes] = useState(5);
+  const refreshIntervalRef = useRef(refreshInterval);
+  refreshIntervalRef.current = refreshInterval;
+  const resumeAfterRef = useRef(resumeAfterMinutes);
+  resumeAfterRef.current = resumeAfterMinutes;
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const keyPausedRef = useRef(keyPaused);
+  keyPausedRef.current = keyPaused;
+  const showInfoRef = useRef(showInfo);
+  showInfoRef.current = showInfo;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  const blankedRef = useRef(blanked);
+  blankedRef.current = blanked;
+  const carouselsRef = useRef(new Map<string, CarouselHandle>());
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+  const announcementsRef = useRef(announcements);
+  announcementsRef.current = announcements;
+  const rotationRef = useRef(rotation);
+  rotationRef.current = rotation;
+  // The latest lists before filtering by orientation, to filter again when the window changes shape
+  const unfilteredRef = useRef<Pick<DisplayContent, 'announcements' | 'zones'> | null>(null);
+  // The main zone's slide on screen, reported with each heartbeat
+  const currentSlideRef = useRef<Announcement | null>(null);
 
   // Keep TV awake - combines screen wake lock API + periodic input simulation
   useEffect(() => {
@@ -57,63 +133,408 @@ export default function Display() {
     };
   }, []);
 
+  // Items meant for the other orientation (e.g. portrait posters on a landscape TV) are left out.
+  // Unchanged lists keep their identity so their carousels keep playing.
+  const showFitting = (content: Pick<DisplayContent, 'announcements' | 'zones'>, shape: ScreenOrientation) => {
+    const fitting = (items: Announcement[]) => items.filter(item => fitsOrientation(item, shape));
+
+    setAnnouncements(prev => mergeAnnouncements(prev, fitting(content.announcements)));
+    setZones(prev => Object.fromEntries(
+      Object.entries(content.zones).map(([key, items]) => [key, mergeAnnouncements(prev[key] ?? [], fitting(items))])
+    ));
+  };
+
+  // Swap in new content
+  const applyContent = (content: Pick<DisplayContent, 'announcements' | 'layout' | 'zones' | 'widgets' | 'ticker' | 'tickerStyle' | 'rotation' | 'audio'>) => {
+    const nextOrientation = getScreenOrientation(content.rotation);
+    unfilteredRef.current = { announcements: content.announcements, zones: content.zones };
+
+    setRotation(content.rotation);
+    setOrientation(nextOrientation);
+    setAudio(prev => (JSON.stringify(prev) === JSON.stringify(content.audio) ? prev : content.audio));
+    showFitting(content, nextOrientation);
+    setLayout(prev => (JSON.stringify(prev) === JSON.stringify(content.layout) ? prev : content.layout));
+    setWidgets(prev => (JSON.stringify(prev) === JSON.stringify(content.widgets) ? prev : content.widgets));
+    setTickerMessages(prev => (JSON.stringify(prev) === JSON.stringify(content.ticker) ? prev : content.ticker));
+    setTickerStyle(prev => (JSON.stringify(prev) === JSON.stringify(content.tickerStyle) ? prev : content.tickerStyle));
+  };
+
   // Fetch data
   const fetchAnnouncements = async () => {
-    // 1. Fetch announcements
-    const { data, error } = await supabase
-      .from('announcements')
-      .select('*')
-      .eq('active', true)
-      .order('order_index', { ascending: true })
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    const screenSlug = getRequestedScreenSlug();
+
+    try {
+      const content = await fetchDisplayContent(screenSlug);
+
+      if (!content.screenFound) {
+        setMissingScreen(screenSlug);
+        unfilteredRef.current = null;
+        setAnnouncements([]);
+        setLayout(null);
+        setZones({});
+        setWidgets([]);
+        setTickerMessages([]);
+        return;
+      }
+
+      setMissingScreen(null);
+      setIsOffline(false);
+      noteContentLoaded();
+      applyContent(content);
+      if (content.refreshInterval !== null) {
+        setRefreshInterval(content.refreshInterval);
+      }
+      if (content.resumeAfterMinutes !== null) {
+        setResumeAfterMinutes(content.resumeAfterMinutes);
+      }
+
+      // Remember this playlist and keep its media on the device for offline playback
+      saveManifest(screenSlug, {
+        announcements: content.announcements,
+        layout: content.layout,
+        zones: content.zones,
+        widgets: content.widgets,
+        ticker: content.ticker,
+        tickerStyle: content.tickerStyle,
+        rotation: content.rotation,
+        audio: content.audio,
+        refreshInterval: content.refreshInterval ?? refreshIntervalRef.current,
+        resumeAfterMinutes: content.resumeAfterMinutes ?? resumeAfterRef.current,
+      });
+      syncMediaCache(
+        [content.announcements, ...Object.values(content.zones)].flat().flatMap(getMediaUrls)
+      );
+    } catch (error) {
       console.error('Error fetching announcements:', error);
-    } else {
-      setAnnouncements(data || []);
-    }
+      noteDisplayError(`Fetching content failed: ${describeError(error)}`);
+      setIsOffline(true);
 
-    // 2. Fetch settings
-    const { data: settings } = await supabase
-        .from('settings')
-        .select('refresh_interval')
-        .single();
-    
-    if (settings) {
-        setRefreshInterval(settings.refresh_interval);
+      // Keep playing what we have; on a cold start fall back to the last known playlist
+      const manifest = loadManifest(screenSlug);
+      if (manifest) {
+        if (announcementsRef.current.length === 0) {
+          applyContent({
+            announcements: manifest.announcements,
+            layout: manifest.layout ?? null,
+            zones: manifest.zones ?? {},
+            widgets: manifest.widgets ?? [],
+            ticker: manifest.ticker ?? [],
+            tickerStyle: manifest.tickerStyle ?? DEFAULT_TICKER_STYLE,
+            rotation: manifest.rotation ?? 0,
+            audio: manifest.audio ?? DEFAULT_SCREEN_AUDIO,
+          });
+        }
+        setRefreshInterval(manifest.refreshInterval);
+        if (manifest.resumeAfterMinutes !== undefined) setResumeAfterMinutes(manifest.resumeAfterMinutes);
+      }
+    } finally {
+      setLoading(false);
     }
-
-    setLoading(false);
   };
 
+  // Long-lived timers and subscriptions call the latest render's fetch
+  const fetchAnnouncementsRef = useRef(fetchAnnouncements);
+  fetchAnnouncementsRef.current = fetchAnnouncements;
+
+  // A resized window or a TV switching output mode can turn landscape into portrait and back
   useEffect(() => {
+    const handleResize = () => setOrientation(getScreenOrientation(rotationRef.current));
+    window.addEventListener('resize', handleResize);
+    window.addEventListener('orientationchange', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('orientationchange', handleResize);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (unfilteredRef.current) showFitting(unfilteredRef.current, orientation);
+  }, [orientation]);
+
+  useEffect(() => {
+    registerDisplayServiceWorker();
     fetchAnnouncements();
+    return startPlayLogUploads();
   }, []);
 
-  // Poll for updates
+  // Health monitoring: heartbeats for the admin dashboard, plus any errors worth reporting with them
   useEffect(() => {
-    if (refreshInterval <= 0) return;
-    
-    const intervalMs = refreshInterval * 60 * 1000;
-    const pollInterval = setInterval(fetchAnnouncements, intervalMs);
-    return () => clearInterval(pollInterval);
-  }, [refreshInterval]);
+    const handleError = (event: ErrorEvent) => noteDisplayError(event.message);
+    const handleRejection = (event: PromiseRejectionEvent) => noteDisplayError(describeError(event.reason));
+
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
 
-  // Cycle logic
+    const stopHeartbeats = startHeartbeats(
+      () => ({
+        current: currentSlideRef.current && { id: currentSlideRef.current.id, title: currentSlideRef.current.title },
+        wakeLock: !!wakeLockRef.current && !wakeLockRef.current.released,
+        paused: pausedRef.current,
+        blanked: blankedRef.current,
+        audioBlocked: isAudioBlocked(),
+      }),
+      getRequestedScreenSlug()
+    );
+
+    return () => {
+      stopHeartbeats();
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
+    };
+  }, []);
+
+  // Remote control: commands arrive over realtime, with a short poll as backup, and are acknowledged once carried out
   useEffect(() => {
-    if (announcements.length <= 1) return;
+    const deviceId = getDeviceId();
+    const handledIds = new Set<string>();
+    let identifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Returns false when the command can't be carried out right now
+    const execute = (command: DeviceCommand): boolean => {
+      const carousels = carouselsRef.current;
+      const main = carousels.get(MAIN_ZONE_KEY);
 
-    const currentAnnouncement = announcements[currentIndex];
-    const duration = (currentAnnouncement?.display_duration || 10) * 1000;
+      switch (command.command) {
+        case 'reload':
+          window.location.reload();
+          return true;
+        case 'next':
+          main?.next();
+          return !!main;
+        case 'previous':
+          main?.previous();
+          return !!main;
+        case 'goto': {
+          const id = command.payload?.announcement_id;
+          // The main zone first, then any other zone that plays the item
+          return !!id && [main, ...carousels.values()].some(carousel => carousel?.show(id));
+        }
+        case 'pause':
+        case 'resume':
+          // A pause from the admin panel lasts until it is undone there (or with the remote)
+          clearTimeout(resumeTimerRef.current);
+          setKeyPaused(false);
+          setPaused(command.command === 'pause');
+          return true;
+        case 'blank':
+        case 'unblank':
+          setBlanked(command.command === 'blank');
+          return true;
+        case 'identify':
+          clearTimeout(identifyTimer);
+          setIdentifyLabel(command.payload?.label || getRequestedScreenSlug() || 'Default display');
+          identifyTimer = setTimeout(() => setIdentifyLabel(null), IDENTIFY_MS);
+          return true;
+        default:
+          return false;
+      }
+    };
 
-    const timer = setTimeout(() => {
-      setCurrentIndex((prev) => (prev + 1) % announcements.length);
-    }, duration);
+    const handleCommand = async (command: DeviceCommand) => {
+      if (handledIds.has(command.id)) return;
+      handledIds.add(command.id);
+
+      // A reload never returns, so acknowledge it first
+      if (command.command === 'reload') {
+        await acknowledgeCommand(command.id, 'done');
+        execute(command);
+        return;
+      }
 
-    return () => clearTimeout(timer);
-  }, [currentIndex, announcements]);
+      const ok = execute(command);
+      if (!ok) noteDisplayError(`Could not carry out remote command "${command.command}"`);
+      await acknowledgeCommand(command.id, ok ? 'done' : 'failed');
+      // Let the dashboard see the new paused/blanked state straight away (after React has applied it)
+      setTimeout(sendHeartbeatNow, 0);
+    };
+
+    const checkCommands = async () => {
+      try {
+        const commands = await fetchPendingCommands(deviceId);
+        for (const command of commands) await handleCommand(command);
+      } catch (error) {
+        console.error('Error checking remote commands:', error);
+      }
+    };
+
+    checkCommands();
+    const unsubscribe = subscribeToCommands(deviceId, handleCommand);
+    const poll = setInterval(checkCommands, COMMAND_POLL_MS);
+
+    return () => {
+      clearInterval(poll);
+      clearTimeout(identifyTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  // Keyboard and TV remote: arrows step through slides, OK pauses, digits jump, Back shows the info overlay
+  useEffect(() => {
+    let feedbackTimer: ReturnType<typeof setTimeout> | undefined;
+    let infoTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flash = (message: string) => {
+      clearTimeout(feedbackTimer);
+      setKeyFeedback(message);
+      feedbackTimer = setTimeout(() => setKeyFeedback(null), KEY_FEEDBACK_MS);
+    };
+
+    // (Re)starts the countdown after which a remote pause ends by itself
+    const scheduleResume = () => {
+      clearTimeout(resumeTimerRef.current);
+      const delay = getResumeDelayMs(resumeAfterRef.current);
+      if (delay === null) return;
+
+      resumeTimerRef.current = setTimeout(() => {
+        setKeyPaused(false);
+        setPaused(false);
+        setTimeout(sendHeartbeatNow, 0);
+      }, delay);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = getKeyAction(event);
+      if (!action) return;
+
+      // Keeps Back from leaving the page and Space from scrolling
+      event.preventDefault();
+      const main = carouselsRef.current.get(MAIN_ZONE_KEY);
+
+      switch (action.type) {
+        case 'next':
+          main?.next();
+          break;
+        case 'previous':
+          main?.previous();
+          break;
+        case 'jump':
+          flash(main?.showIndex(action.index) ? `${action.index + 1} / ${main.playableCount()}` : `No slide ${action.index + 1}`);
+          break;
+        case 'toggle-pause':
+          if (pausedRef.current) {
+            clearTimeout(resumeTimerRef.current);
+            setKeyPaused(false);
+            setPaused(false);
+            flash('Playing');
+          } else {
+            setKeyPaused(true);
+            setPaused(true);
+            scheduleResume();
+            flash('Paused');
+          }
+          setTimeout(sendHeartbeatNow, 0);
+          return;
+        case 'info':
+          clearTimeout(infoTimer);
+          if (!showInfoRef.current) infoTimer = setTimeout(() => setShowInfo(false), INFO_OVERLAY_MS);
+          setShowInfo(!showInfoRef.current);
+          break;
+      }
 
-  if (loading) {
+      // Someone is still at the remote: push the automatic resume back
+      if (keyPausedRef.current) scheduleResume();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      clearTimeout(feedbackTimer);
+      clearTimeout(infoTimer);
+      clearTimeout(resumeTimerRef.current);
+    };
+  }, []);
+
+  // Sound: the screen's volume, silenced during its quiet hours
+  useEffect(() => {
+    const update = () => setMasterVolume(getMasterVolume(audio));
+    update();
+    const timer = setInterval(update, QUIET_HOURS_TICK_MS);
+    return () => clearInterval(timer);
+  }, [audio]);
+
+  // The browser refused to play sound: the first click or key press anywhere turns it on
+  useEffect(() => subscribeToAudioBlocked((blocked) => {
+    setAudioBlocked(blocked);
+    sendHeartbeatNow();
+  }), []);
+
+  useEffect(() => {
+    if (!audioBlocked) return;
+
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
+  }, [audioBlocked]);
+
+  // Hands each zone's carousel to the remote control
+  const registerCarousel = (zoneKey: string) => (handle: CarouselHandle | null) => {
+    if (handle) carouselsRef.current.set(zoneKey, handle);
+    else carouselsRef.current.delete(zoneKey);
+  };
+
+  const showMainSlide = (item: Announcement | null) => {
+    currentSlideRef.current = item;
+  };
+
+  // Proof of play: each zone reports the slides it has shown
+  const logImpression = (zoneKey: string) => (impression: SlideImpression) => {
+    recordImpression(impression, getRequestedScreenSlug(), zoneKey);
+    if (impression.outcome === 'error') {
+      noteDisplayError(`Could not play "${impression.item.title}"`);
+    }
+  };
+
+  // Push updates: refetch as soon as the database reports a change
+  useEffect(() => {
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToDisplayChanges(() => {
+      clearTimeout(debounce);
+      debounce = setTimeout(() => fetchAnnouncementsRef.current(), REALTIME_DEBOUNCE_MS);
+    });
+
+    return () => {
+      clearTimeout(debounce);
+      unsubscribe();
+    };
+  }, []);
+
+  // Emergency alerts bypass the refresh interval: pushed over realtime and polled every few seconds
+  useEffect(() => {
+    const checkAlert = async () => {
+      try {
+        const alert = await fetchActiveAlert();
+        setEmergencyAlert(prev => (JSON.stringify(prev) === JSON.stringify(alert) ? prev : alert));
+        rememberAlert(alert);
+      } catch (error) {
+        // Offline: keep showing (or not showing) the last known alert
+        console.error('Error checking emergency alerts:', error);
+      }
+    };
+
+    checkAlert();
+    const unsubscribe = subscribeToEmergencyAlerts(checkAlert);
+    const poll = setInterval(checkAlert, EMERGENCY_POLL_MS);
+
+    return () => {
+      clearInterval(poll);
+      unsubscribe();
+    };
+  }, []);
+
+  // Poll for updates (fallback when realtime is unavailable)
+  useEffect(() => {
+    if (refreshInterval <= 0) return;
+    
+    const intervalMs = refreshInterval * 60 * 1000;
+    const pollInterval = setInterval(() => fetchAnnouncementsRef.current(), intervalMs);
+    return () => clearInterval(pollInterval);
+  }, [refreshInterval]);
+
+  if (loading && !emergencyAlert) {
     return (
       <div className="flex h-screen w-full items-center justify-center bg-black text-white">
         <Loader2 className="h-10 w-10 animate-spin text-white/50" />
@@ -121,123 +542,154 @@ export default function Display() {
     );
   }
 
-  if (announcements.length === 0) {
+  if (missingScreen && !emergencyAlert) {
     return (
-      <div className="flex h-screen w-full items-center justify-center bg-black text-white">
-        <h1 className="text-4xl text-gray-500">No Displays</h1>
+      <div className="flex h-screen w-full flex-col items-center justify-center gap-2 bg-black text-white">
+        <h1 className="text-4xl text-gray-500">Unknown Screen</h1>
+        <p className="text-gray-600">No screen named "{missingScreen}" exists. Check the URL or add it in the settings.</p>
       </div>
     );
   }
 
-  const currentItem = announcements[currentIndex];
+  const noDisplays = (
+    <div className="flex h-full w-full items-center justify-center text-white">
+      <h1 className="text-4xl text-gray-500">No Displays</h1>
+    </div>
+  );
 
-  const getTransitionClass = (index: number, currentIdx: number, type: 'fade' | 'slide' | 'none') => {
-    const isActive = index === currentIdx;
-    
-    if (type === 'none') {
-        return isActive ? 'opacity-100' : 'opacity-0 hidden';
-    }
-    
-    if (type === 'slide') {
-        // Simple slide logic: Active slides in, others hide. 
-        // For a proper carousel sliding out, we need prev/next logic, 
-        // but for now let's just do a translate transformation.
-        return isActive 
-            ? 'translate-x-0 opacity-100' 
-            : 'translate-x-full opacity-0';
-    }
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-black">
+      {/* The rendered surface; turned as a whole for screens mounted sideways or upside down */}
+      <div
+        className={`absolute inset-0 flex overflow-hidden bg-black group ${tickerStyle.position === 'top' ? 'flex-col-reverse' : 'flex-col'}`}
+        style={getRotationStyle(rotation)}
+      >
+        {/* Invisible background video - keeps LG TV awake during display mode */}
+        <video 
+          autoPlay
+          muted
+          loop
+          playsInline
+          style={{
+            position: 'absolute',
+            width: '1px',
+            height: '1px',
+            opacity: 0,
+            pointerEvents: 'none'
+          }}
+        >
+          <source src="data:video/mp4;base64,AAAAIGZ0eXBpc29tAAACAGlzb21pc2FjLW1wNDEAAAAIZnJlZQAAAuhtZGF0AAACrwYF//+q3EXpvebZSLeWLNgg2SPu73gyNjQgLWNvZGVjIGxpYnMveDI2NC5zbyBjb3B5bGVmdD0wIGNhY2EtbGV2ZWw9MjggcHJlZmlsdGVyPTAgYW9xPTAgcHQ9MCBkZXEtY29sb3JzcGFjZT0wIGhpZXIteD0wIGhpZXItaT0wIGl1cD0wIGFzcGVjdC1yYXRpbz0xIHJhc3VwLW1vZGU9MCBjdXRldnBzPTAgcmE9cyBzc3ItZHk9MCBzcz0wIGItcHlyYW1pZD0wIGNoYXJtYT0wIHJjZ2xvd3A9MCByY2cwPTAgYm93eT0xIGNvYmF0YT0wIGNvZXZjPTAgY2c9MCBjdHJsPTAgc2xpY2VzPTAgb3B0aW1pemVtdj0wIHJlZj0zIGZiPTAgY2F2bGMtY29tcGxpYW50PSBsYXN0LW1idHM9MCBzcHM9MCB2ZWlpPTAgdGlkLXBvY2s9MCBvcGVuZ29wPTAgZGVibG9jaz0wOjAgZGlzdHJ5c3RlPTAgZGVibG9jaz0wOjAgbXRyYT1mYWxzZSBub2pkPjAgbG9va2FoZWFkLWF0cmFzcz1mYWxzZSBzbGljZXM9IDEgc2xpY2VfbWF4X3NpemU9MCBzbGljZV9tYXhfbXVhPTAgc3BsaXRfbWluX2J0bD0gZGlzcF9sZXZlbD0gZGlzcF9kZWxvYXNzPTAgdGFnZWQtY2FzZT0wIHY0X21lPTAgYXBlLWJ5LXBvYT1mYWxzZSBjdXRldnBzPTAgY3JhZnQ9MCBjcmFmdF9taW49IDAgY3JhZnRfbWF4PSAwIGNvZGluZ3RyZWU9IGN0dD0wIHRvb2xzPSBjaGVja3BvaW50PTAgaHdzPSBzbW9vdGhfZXc9IDAgYWhzLWFsd2F5cz0wIHN0aXRjaD0wIGFzeW09MCBhdmctY3Bncy1yYXRlPWZhbHNlIGhtb2NvcT0wIGx1bWE9MCBsb29rYWhlYWR9IGhtPTAgYXJjPTAgc3RzZHQ9IDAgYmlkPTAgYnJmdD0wIGdvb3A9MCBzdGFydHI9IDAgbWluYXRyPTAgbW9zaW49IDAgc2FkPTAgcGd4PSAwIHRzZz0wIHdhZm9ybT0wIHdweT0wIGNodz0gYXE9IDE6MSBZCG09Ig0BDAIgLCAiOiIsCnl1dmogZXhjZXNzIHhkYXRhAAB3BQGsj+Q=" type="video/mp4" />
+        </video>
 
-    // Default to fade
-    return isActive ? 'opacity-100' : 'opacity-0';
-  };
+        {/* An emergency alert replaces everything else until it is cleared */}
+        {emergencyAlert ? (
+          <div className="relative flex-1 [container-type:size]">
+            <EmergencyOverlay alert={emergencyAlert} />
+          </div>
+        ) : blanked ? (
+          // Blanked remotely: nothing plays until the screen is unblanked
+          <div className="flex-1 bg-black" />
+        ) : (
+          <>
+            {/* Content area; the ticker (if any) takes a strip above or below it.
+                It is also the size container that widget sizes (cqh) refer to. */}
+            <div className="relative min-h-0 flex-1 [container-type:size]">
+              {layout ? (
+                layout.zones.map(zone => (
+                  <div key={zone.key} className="absolute overflow-hidden" style={getZoneStyle(zone)}>
+                    {zone.key === MAIN_ZONE_KEY ? (
+                      <Carousel ref={registerCarousel(zone.key)} items={announcements} showControls paused={paused} volume={masterVolume} onImpression={logImpression(zone.key)} onShow={showMainSlide} />
+                    ) : (
+                      <Carousel ref={registerCarousel(zone.key)} items={zones[zone.key] ?? NO_ITEMS} paused={paused} onImpression={logImpression(zone.key)} />
+                    )}
+                  </div>
+                ))
+              ) : (
+                <Carousel ref={registerCarousel(MAIN_ZONE_KEY)} items={announcements} showControls empty={noDisplays} paused={paused} volume={masterVolume} onImpression={logImpression(MAIN_ZONE_KEY)} onShow={showMainSlide} />
+              )}
 
-  const handlePrev = () => {
-    setCurrentIndex((prev) => (prev - 1 + announcements.length) % announcements.length);
-  };
+              <WidgetOverlay widgets={widgets} />
 
-  const handleNext = () => {
-    setCurrentIndex((prev) => (prev + 1) % announcements.length);
-  };
+              {/* Offline Indicator */}
+              {isOffline && (
+                <div className="absolute bottom-4 left-4 z-50 flex items-center gap-1.5 rounded-full bg-black/40 px-2.5 py-1 text-xs text-white/60 backdrop-blur-sm" title="Playing from the offline cache">
+                  <WifiOff className="h-3.5 w-3.5" />
+                  Offline
+                </div>
+              )}
 
-  return (
-    <div className="relative h-screen w-full overflow-hidden bg-black group">
-      {/* Invisible background video - keeps LG TV awake during display mode */}
-      <video 
-        autoPlay
-        muted
-        loop
-        playsInline
-        style={{
-          position: 'absolute',
-          width: '1px',
-          height: '1px',
-          opacity: 0,
-          pointerEvents: 'none'
-        }}
-      >
-        <source src="data:video/mp4;base64,AAAAIGZ0eXBpc29tAAACAGlzb21pc2FjLW1wNDEAAAAIZnJlZQAAAuhtZGF0AAACrwYF//+q3EXpvebZSLeWLNgg2SPu73gyNjQgLWNvZGVjIGxpYnMveDI2NC5zbyBjb3B5bGVmdD0wIGNhY2EtbGV2ZWw9MjggcHJlZmlsdGVyPTAgYW9xPTAgcHQ9MCBkZXEtY29sb3JzcGFjZT0wIGhpZXIteD0wIGhpZXItaT0wIGl1cD0wIGFzcGVjdC1yYXRpbz0xIHJhc3VwLW1vZGU9MCBjdXRldnBzPTAgcmE9cyBzc3ItZHk9MCBzcz0wIGItcHlyYW1pZD0wIGNoYXJtYT0wIHJjZ2xvd3A9MCByY2cwPTAgYm93eT0xIGNvYmF0YT0wIGNvZXZjPTAgY2c9MCBjdHJsPTAgc2xpY2VzPTAgb3B0aW1pemVtdj0wIHJlZj0zIGZiPTAgY2F2bGMtY29tcGxpYW50PSBsYXN0LW1idHM9MCBzcHM9MCB2ZWlpPTAgdGlkLXBvY2s9MCBvcGVuZ29wPTAgZGVibG9jaz0wOjAgZGlzdHJ5c3RlPTAgZGVibG9jaz0wOjAgbXRyYT1mYWxzZSBub2pkPjAgbG9va2FoZWFkLWF0cmFzcz1mYWxzZSBzbGljZXM9IDEgc2xpY2VfbWF4X3NpemU9MCBzbGljZV9tYXhfbXVhPTAgc3BsaXRfbWluX2J0bD0gZGlzcF9sZXZlbD0gZGlzcF9kZWxvYXNzPTAgdGFnZWQtY2FzZT0wIHY0X21lPTAgYXBlLWJ5LXBvYT1mYWxzZSBjdXRldnBzPTAgY3JhZnQ9MCBjcmFmdF9taW49IDAgY3JhZnRfbWF4PSAwIGNvZGluZ3RyZWU9IGN0dD0wIHRvb2xzPSBjaGVja3BvaW50PTAgaHdzPSBzbW9vdGhfZXc9IDAgYWhzLWFsd2F5cz0wIHN0aXRjaD0wIGFzeW09MCBhdmctY3Bncy1yYXRlPWZhbHNlIGhtb2NvcT0wIGx1bWE9MCBsb29rYWhlYWR9IGhtPTAgYXJjPTAgc3RzZHQ9IDAgYmlkPTAgYnJmdD0wIGdvb3A9MCBzdGFydHI9IDAgbWluYXRyPTAgbW9zaW49IDAgc2FkPTAgcGd4PSAwIHRzZz0wIHdhZm9ybT0wIHdweT0wIGNodz0gYXE9IDE6MSBZCG09Ig0BDAIgLCAiOiIsCnl1dmogZXhjZXNzIHhkYXRhAAB3BQGsj+Q=" type="video/mp4" />
-      </video>
+              {/* Sound blocked by the browser until someone interacts with the page */}
+              {audioBlocked && (
+                <div className="absolute bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-2 rounded-full bg-black/60 px-4 py-2 text-sm text-white/80 backdrop-blur-sm">
+                  <VolumeX className="h-4 w-4" />
+                  Click or press any key to turn the sound on
+                </div>
+              )}
 
-      {announcements.map((item, index) => (
-        <div
-          key={item.id}
-          className={`absolute inset-0 flex items-center justify-center transition-all duration-1000 ease-in-out ${getTransitionClass(index, currentIndex, item.transition_type)}`}
-        >
-            {/\.(mp4|webm|ogg|mov)$/i.test(item.image_url) ? (
-              <video 
-                src={item.image_url} 
-                className="max-h-full max-w-full object-contain"
-                autoPlay
-                muted
-                loop
-                playsInline
-              /> 
-            ) : (
-              <img 
-                  src={item.image_url} 
-                  alt="Announcement" 
-                  className="max-h-full max-w-full object-contain"
-              />
-            )}
-        </div>
-      ))}
-      
-      {/* Admin Button */}
-      <div className="absolute top-4 right-4 z-50 opacity-0 transition-opacity duration-300 group-hover:opacity-100">
-        <a 
-            href="/settings"
-            className="flex h-10 w-10 items-center justify-center rounded-full bg-black/30 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
-            title="Go to Admin Panel"
-        >
-            <Settings className="h-5 w-5" />
-        </a>
-      </div>
+              {/* Paused Indicator */}
+              {paused && (
+                <div className="absolute bottom-4 right-4 z-50 flex items-center gap-1.5 rounded-full bg-black/40 px-2.5 py-1 text-xs text-white/60 backdrop-blur-sm" title={keyPaused ? 'Paused with the remote' : 'Paused from the admin panel'}>
+                  <Pause className="h-3.5 w-3.5" />
+                  {keyPaused ? 'Paused · press OK to resume' : 'Paused'}
+                </div>
+              )}
 
-      {/* Navigation Controls */}
-      <div className="absolute bottom-10 left-0 right-0 z-50 flex items-center justify-center gap-6 opacity-0 transition-opacity duration-300 group-hover:opacity-100">
-        <button 
-            onClick={handlePrev}
-            className="rounded-full bg-black/30 p-2 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
-        >
-            <ChevronLeft className="h-6 w-6" />
-        </button>
-
-        <div className="flex gap-2">
-            {announcements.map((_, idx) => (
-            <button 
-                key={idx}
-                onClick={() => setCurrentIndex(idx)}
-                className={`h-2.5 w-2.5 rounded-full transition-all duration-300 ${idx === currentIndex ? 'bg-white scale-110' : 'bg-white/30 hover:bg-white/50'}`}
-            />
-            ))}
-        </div>
-
-        <button 
-            onClick={handleNext}
-            className="rounded-full bg-black/30 p-2 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
-        >
-            <ChevronRight className="h-6 w-6" />
-        </button>
+              {/* Admin Button */}
+              <div className="absolute top-4 right-4 z-50 opacity-0 transition-opacity duration-300 group-hover:opacity-100">
+                <a 
+                    href="/settings"
+                    className="flex h-10 w-10 items-center justify-center rounded-full bg-black/30 text-white/70 backdrop-blur-sm transition-all hover:bg-black/50 hover:text-white hover:scale-110"
+                    title="Go to Admin Panel"
+                >
+                    <Settings className="h-5 w-5" />
+                </a>
+              </div>
+            </div>
+
+            <Ticker messages={tickerMessages} style={tickerStyle} />
+          </>
+        )}
+
+        {/* Feedback for a key press on the remote */}
+        {keyFeedback && (
+          <div className="pointer-events-none absolute left-1/2 top-1/2 z-[60] -translate-x-1/2 -translate-y-1/2 rounded-[2vh] bg-black/70 px-[4vh] py-[2vh] text-[4vh] font-semibold text-white backdrop-blur-sm">
+            {keyFeedback}
+          </div>
+        )}
+
+        {/* Info overlay (Back on the remote): what is this screen doing? */}
+        {showInfo && (
+          <div className="pointer-events-none absolute left-[3vh] top-[3vh] z-[60] space-y-[2vh] rounded-[1.5vh] bg-black/80 p-[3vh] text-[2.2vh] text-white backdrop-blur-sm">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-[3vh] gap-y-[0.8vh]">
+              <dt className="text-white/50">Screen</dt>
+              <dd>{getRequestedScreenSlug() ?? 'Default display'}</dd>
+              <dt className="text-white/50">Showing</dt>
+              <dd>
+                {currentSlideRef.current
+                  ? `${currentSlideRef.current.title} (${announcements.findIndex(item => item.id === currentSlideRef.current?.id) + 1} / ${announcements.length})`
+                  : 'Nothing'}
+              </dd>
+              <dt className="text-white/50">Status</dt>
+              <dd>
+                {isOffline ? 'Offline, playing from cache' : 'Online'}
+                {paused && (keyPaused && resumeAfterMinutes > 0 ? `, paused (resumes after ${resumeAfterMinutes} min without a key press)` : ', paused')}
+              </dd>
+              <dt className="text-white/50">Device</dt>
+              <dd className="font-mono">{getDeviceId().slice(0, 8)} · v{APP_VERSION}</dd>
+            </dl>
+            <p className="text-[1.8vh] text-white/50">
+              ◀ ▶ previous / next · OK pause / resume · 1–9 jump to slide · Back close
+            </p>
+          </div>
+        )}
+
+        {/* Identify: which screen is this? */}
+        {identifyLabel && (
+          <div className="absolute inset-0 z-[60] flex flex-col items-center justify-center gap-[2vh] bg-black/75 text-white">
+            <p className="animate-pulse text-center text-[12vh] font-bold leading-tight">{identifyLabel}</p>
+            <p className="font-mono text-[2.5vh] text-white/60">Device {getDeviceId().slice(0, 8)}</p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
-import type { Announcement, AppSettings } from '../types';
+import type { Announcement, AppSettings, DaypartRule, EmergencyAlert, Screen, Playlist, PlaylistItem, PlaybackMode, Layout, TickerMessage, TickerPosition, OrientationTarget } from '../types';
 import toast, { Toaster } from 'react-hot-toast';
 import { 
   Trash2, 
@@ -28,7 +28,21 @@ import {
   Heart,
   Github,
   PlusCircle,
-  List
+  List,
+  Tv,
+  ListVideo,
+  Repeat,
+  Volume2,
+  Sparkles,
+  Crop,
+  LayoutDashboard,
+  Type,
+  Megaphone,
+  Globe,
+  FileText,
+  ChevronRight,
+  BarChart3,
+  RectangleVertical
 } from 'lucide-react';
 
 import { 
@@ -74,6 +88,33 @@ import {
   AlertDialogTrigger,
 } from "./ui/alert-dialog";
 import { Skeleton } from './ui/skeleton';
+import { getMediaUrls, isVideoUrl, readVideoDuration } from '../lib/media';
+import { isTextSlide } from '../lib/textSlides';
+import { isWebSlide } from '../lib/webSlides';
+import { isPdfFile } from '../lib/pdf';
+import { removeFromStorage } from '../lib/storage';
+import { flattenListUnits, isSlideGroup, toListUnits, type SlideGroup } from '../lib/groups';
+import { TRANSITIONS, DEFAULT_TRANSITION_MS } from '../lib/transitions';
+import { DEFAULT_TICKER_STYLE } from '../lib/ticker';
+import { ORIENTATION_TARGETS } from '../lib/orientation';
+import { FIT_MODES } from '../lib/fit';
+import TransitionPicker, { type TransitionValue } from './TransitionPicker';
+import ScreenManager from './ScreenManager';
+import ScreenHealth from './ScreenHealth';
+import PairedDisplays from './PairedDisplays';
+import LayoutManager from './LayoutManager';
+import TextSlide from './TextSlide';
+import TextSlideEditor from './TextSlideEditor';
+import WebSlideEditor from './WebSlideEditor';
+import PdfImporter from './PdfImporter';
+import EmergencyBroadcast, { ActiveEmergencyBanner } from './EmergencyBroadcast';
+import PlayAnalytics from './PlayAnalytics';
+import EditableSchedule from './EditableSchedule';
+import TickerManager from './TickerManager';
+import PlaylistPicker from './PlaylistPicker';
+import OrientationPreview from './OrientationPreview';
+import DaypartEditor from './DaypartEditor';
+import FitPicker, { getFitValue, type FitValue } from './FitPicker';
 
 // Helper component for Password Input with toggle
 function PasswordInput(props: React.ComponentProps<typeof Input>) {
@@ -202,13 +243,396 @@ function EditableDuration({ id, initialDuration, onSave }: { id: string, initial
   );
 }
 
+// Helper component for per-screen assignment toggles
+function ScreenAssignment({ item, screens, onSave }: { item: Announcement, screens: Screen[], onSave: (id: string, screenIds: string[]) => void }) {
+  if (screens.length === 0) return null;
+
+  const toggleScreen = (screenId: string) => {
+    const assigned = item.screen_ids || [];
+    const next = assigned.includes(screenId)
+      ? assigned.filter(id => id !== screenId)
+      : [...assigned, screenId];
+    onSave(item.id, next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Tv className="h-3 w-3 text-slate-400" />
+      {screens.map(screen => {
+        const isAssigned = (item.screen_ids || []).includes(screen.id);
+        return (
+          <button
+            key={screen.id}
+            type="button"
+            onClick={() => toggleScreen(screen.id)}
+            className={`rounded-full border px-2 py-px text-[10px] font-medium transition-colors ${
+              isAssigned 
+                ? 'border-slate-900 bg-slate-900 text-white' 
+                : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400'
+            }`}
+            title={isAssigned ? `Remove from ${screen.name}` : `Show on ${screen.name}`}
+          >
+            {screen.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Helper component for playlist membership toggles
+function PlaylistAssignment({ item, playlists, playlistItems, onToggle }: { item: Announcement, playlists: Playlist[], playlistItems: PlaylistItem[], onToggle: (playlistId: string, announcementId: string) => void }) {
+  if (playlists.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <ListVideo className="h-3 w-3 text-slate-400" />
+      {playlists.map(playlist => {
+        const isMember = playlistItems.some(pi => pi.playlist_id === playlist.id && pi.announcement_id === item.id);
+        return (
+          <button
+            key={playlist.id}
+            type="button"
+            onClick={() => onToggle(playlist.id, item.id)}
+            className={`rounded-full border px-2 py-px text-[10px] font-medium transition-colors ${
+              isMember 
+                ? 'border-blue-600 bg-blue-600 text-white' 
+                : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400'
+            }`}
+            title={isMember ? `Remove from ${playlist.name}` : `Add to ${playlist.name}`}
+          >
+            {playlist.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+  duration: 'Fixed duration (loop)',
+  until_end: 'Play until end',
+  repeat: 'Play N times',
+};
+
+// Helper component for choosing how a video is played
+function PlaybackModeFields({ mode, count, onChange, compact = false }: { mode: PlaybackMode, count: number, onChange: (mode: PlaybackMode, count: number) => void, compact?: boolean }) {
+  const selectClass = compact
+    ? 'h-6 rounded-md border border-slate-200 bg-white px-1.5 text-xs'
+    : 'h-10 w-full rounded-md border border-slate-200 bg-white px-3 text-sm';
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={mode}
+        onChange={(e) => onChange(e.target.value as PlaybackMode, count)}
+        className={`${selectClass} focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring`}
+      >
+        {(Object.keys(PLAYBACK_MODE_LABELS) as PlaybackMode[]).map(m => (
+          <option key={m} value={m}>{PLAYBACK_MODE_LABELS[m]}</option>
+        ))}
+      </select>
+      {mode === 'repeat' && (
+        <Input
+          type="number"
+          min="1"
+          value={count}
+          onChange={(e) => onChange(mode, Math.max(1, Number(e.target.value)))}
+          className={compact ? 'h-6 w-14 text-xs' : 'w-20'}
+          title="Number of plays"
+        />
+      )}
+    </div>
+  );
+}
+
+// Helper component for editable video playback mode
+function EditablePlayback({ item, onSave }: { item: Announcement, onSave: (id: string, mode: PlaybackMode, count: number) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [mode, setMode] = useState<PlaybackMode>(item.playback_mode || 'duration');
+  const [count, setCount] = useState(item.play_count || 1);
+
+  if (!isVideoUrl(item.image_url)) return null;
+
+  const startEditing = () => {
+    setMode(item.playback_mode || 'duration');
+    setCount(item.play_count || 1);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (mode !== item.playback_mode || count !== item.play_count) {
+      onSave(item.id, mode, count);
+    }
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-2">
+        <PlaybackModeFields mode={mode} count={count} onChange={(m, c) => { setMode(m); setCount(c); }} compact />
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  const summary = item.playback_mode === 'repeat'
+    ? `Play ${item.play_count || 1}× to end`
+    : PLAYBACK_MODE_LABELS[item.playback_mode || 'duration'];
+
+  return (
+    <div className="flex items-center gap-1 group/playback">
+      <span>Playback: {summary}</span>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/playback:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit playback"
+      >
+        <Repeat className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
+// Sound on/off and volume of a video; shared by the upload dialog and the row editor
+function AudioFields({ enabled, volume, onChange, idPrefix }: { enabled: boolean, volume: number, onChange: (enabled: boolean, volume: number) => void, idPrefix: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Switch
+        id={`${idPrefix}-audio`}
+        checked={enabled}
+        onCheckedChange={(checked) => onChange(checked, volume)}
+      />
+      <Label htmlFor={`${idPrefix}-audio`} className="shrink-0 text-xs">Play with sound</Label>
+      {enabled && (
+        <>
+          <input
+            type="range"
+            min="5"
+            max="100"
+            step="5"
+            value={volume}
+            onChange={(e) => onChange(enabled, Number(e.target.value))}
+            className="w-full accent-blue-600"
+            aria-label="Volume"
+          />
+          <span className="w-9 shrink-0 text-right text-xs text-slate-500">{volume}%</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Helper component for editable video sound
+function EditableAudio({ item, onSave }: { item: Announcement, onSave: (id: string, enabled: boolean, volume: number) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [enabled, setEnabled] = useState(!!item.audio_enabled);
+  const [volume, setVolume] = useState(item.volume ?? 100);
+
+  if (!isVideoUrl(item.image_url)) return null;
+
+  const startEditing = () => {
+    setEnabled(!!item.audio_enabled);
+    setVolume(item.volume ?? 100);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (enabled !== !!item.audio_enabled || volume !== item.volume) {
+      onSave(item.id, enabled, volume);
+    }
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="w-64">
+          <AudioFields enabled={enabled} volume={volume} onChange={(e, v) => { setEnabled(e); setVolume(v); }} idPrefix={`row-${item.id}`} />
+        </div>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 group/audio">
+      <span>Sound: {item.audio_enabled ? `${item.volume ?? 100}%` : 'Off'}</span>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/audio:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit sound"
+      >
+        <Volume2 className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
+// Helper component for editable transition effect
+function EditableTransition({ item, onSave }: { item: Announcement, onSave: (id: string, value: TransitionValue) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState<TransitionValue>({ type: 'fade', durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
+
+  const startEditing = () => {
+    setValue({
+      type: item.transition_type || 'fade',
+      durationMs: item.transition_duration ?? DEFAULT_TRANSITION_MS,
+      kenBurns: !!item.ken_burns,
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    onSave(item.id, value);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2 rounded-md border bg-slate-50 p-2">
+        <TransitionPicker 
+          value={value} 
+          onChange={setValue} 
+          showKenBurns={item.content_type === 'media' && !isVideoUrl(item.image_url)} 
+          idPrefix={`row-${item.id}`} 
+        />
+        <div className="flex justify-end gap-1">
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const label = TRANSITIONS.find(t => t.value === item.transition_type)?.label ?? 'Fade';
+  const seconds = (item.transition_duration ?? DEFAULT_TRANSITION_MS) / 1000;
+
+  return (
+    <div className="flex items-center gap-1 group/transition">
+      <span>
+        Transition: {label}
+        {item.transition_type !== 'none' && ` · ${seconds}s`}
+        {item.ken_burns && ' · Ken Burns'}
+      </span>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/transition:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit transition"
+      >
+        <Sparkles className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
+// Helper component for editable fit mode and focal point (images and videos only)
+function EditableFit({ item, onSave }: { item: Announcement, onSave: (id: string, value: FitValue) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState<FitValue>(() => getFitValue(item));
+
+  if (item.content_type !== 'media') return null;
+
+  const startEditing = () => {
+    setValue(getFitValue(item));
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    onSave(item.id, value);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2 rounded-md border bg-slate-50 p-2">
+        <FitPicker item={item} value={value} onChange={setValue} idPrefix={`row-${item.id}`} />
+        <div className="flex justify-end gap-1">
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const label = FIT_MODES.find(m => m.value === (item.fit_mode || 'contain'))?.label ?? 'Fit (black bars)';
+
+  return (
+    <div className="flex items-center gap-1 group/fit">
+      <span>Fit: {label}</span>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/fit:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit fit"
+      >
+        <Crop className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
+// Helper component for editable orientation targeting, with a preview of how the item fits
+function EditableOrientation({ item, onSave, onPreview }: { item: Announcement, onSave: (id: string, orientation: OrientationTarget) => void, onPreview: (item: Announcement) => void }) {
+  const current = item.orientation || 'any';
+
+  return (
+    <div className="flex items-center gap-1 group/orientation">
+      <span>Plays on:</span>
+      <select
+        value={current}
+        onChange={(e) => onSave(item.id, e.target.value as OrientationTarget)}
+        className="h-5 rounded border-0 bg-transparent p-0 text-xs text-slate-500 hover:text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {ORIENTATION_TARGETS.map(target => (
+          <option key={target.value} value={target.value}>{target.label}</option>
+        ))}
+      </select>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/orientation:opacity-100 transition-opacity"
+        onClick={() => onPreview(item)}
+        title="Preview on landscape and portrait screens"
+      >
+        <RectangleVertical className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
 // Helper component for Media Thumbnail with Loading State
 function MediaThumbnail({ url, onClick }: { url: string; onClick: () => void }) {
   const [loaded, setLoaded] = useState(false);
   const [error, setError] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const isVideo = /\.(mp4|webm|ogg|mov)$/i.test(url);
+  const isVideo = isVideoUrl(url);
 
   useEffect(() => {
     if (imgRef.current && imgRef.current.complete) {
@@ -270,28 +694,60 @@ function MediaThumbnail({ url, onClick }: { url: string; onClick: () => void })
 
 interface SortableRowProps {
   item: Announcement;
+  screens: Screen[];
+  playlists: Playlist[];
+  playlistItems: PlaylistItem[];
   updateTitle: (id: string, newTitle: string) => void;
   updateDuration: (id: string, newDuration: number) => void;
+  updatePlayback: (id: string, mode: PlaybackMode, count: number) => void;
+  updateTransition: (id: string, value: TransitionValue) => void;
+  updateAudio: (id: string, enabled: boolean, volume: number) => void;
+  updateFit: (id: string, value: FitValue) => void;
+  updateOrientation: (id: string, orientation: OrientationTarget) => void;
+  previewOrientation: (item: Announcement) => void;
+  updateSchedule: (id: string, publishAt: string | null, expireAt: string | null) => void;
+  updateDayparts: (id: string, rules: DaypartRule[] | null) => void;
+  updateScreens: (id: string, screenIds: string[]) => void;
+  togglePlaylistItem: (playlistId: string, announcementId: string) => void;
   toggleActive: (id: string, checked: boolean) => void;
-  deleteAnnouncement: (id: string, imageUrl: string) => void;
-  setViewUrl: (url: string) => void;
+  deleteAnnouncement: (id: string, mediaUrls: string[]) => void;
+  setViewUrl: (url: string | null) => void;
+  editTextSlide: (item: Announcement) => void;
+  editWebSlide: (item: Announcement) => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
   isFirst: boolean;
   isLast: boolean;
+  grouped?: boolean; // A page inside a PDF group: the group is reordered, not the page
 }
 
 function SortableAnnouncementRow({ 
   item, 
+  screens,
+  playlists,
+  playlistItems,
   updateTitle, 
   updateDuration, 
+  updatePlayback,
+  updateTransition,
+  updateAudio,
+  updateFit,
+  updateOrientation,
+  previewOrientation,
+  updateSchedule,
+  updateDayparts,
+  updateScreens,
+  togglePlaylistItem,
   toggleActive, 
   deleteAnnouncement, 
   setViewUrl,
+  editTextSlide,
+  editWebSlide,
   onMoveUp,
   onMoveDown,
   isFirst,
-  isLast
+  isLast,
+  grouped = false
 }: SortableRowProps) {
   const {
     attributes,
@@ -300,7 +756,7 @@ function SortableAnnouncementRow({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: item.id });
+  } = useSortable({ id: item.id, disabled: grouped });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -317,7 +773,7 @@ function SortableAnnouncementRow({
         className={`flex flex-col gap-4 rounded-lg border p-4 sm:flex-row sm:items-center shadow-sm touch-none ${isDragging ? 'bg-slate-50 border-blue-200' : 'bg-white'}`}
     >
         {/* Controls Column (Desktop) */}
-        <div className="hidden sm:flex flex-col items-center gap-1 mr-2 shrink-0">
+        <div className={`${grouped ? 'hidden' : 'hidden sm:flex'} flex-col items-center gap-1 mr-2 shrink-0`}>
              <Button 
                 variant="ghost" 
                 size="icon" 
@@ -351,7 +807,34 @@ function SortableAnnouncementRow({
             </Button>
         </div>
 
-        <MediaThumbnail url={item.image_url} onClick={() => setViewUrl(item.image_url)} />
+        {isTextSlide(item) ? (
+            <button
+                type="button"
+                className="relative h-32 w-full shrink-0 overflow-hidden rounded-md sm:h-24 sm:w-40 group"
+                onClick={() => editTextSlide(item)}
+                title="Edit text slide"
+            >
+                <TextSlide content={item.text_content!} />
+                <div className="absolute inset-0 flex items-center justify-center bg-black/0 transition-colors group-hover:bg-black/20">
+                    <Pencil className="h-6 w-6 text-white opacity-0 transition-opacity group-hover:opacity-100 drop-shadow-md" />
+                </div>
+            </button>
+        ) : isWebSlide(item) ? (
+            <button
+                type="button"
+                className="relative flex h-32 w-full shrink-0 flex-col items-center justify-center gap-1 overflow-hidden rounded-md border bg-slate-100 px-2 text-slate-500 sm:h-24 sm:w-40 group"
+                onClick={() => editWebSlide(item)}
+                title="Edit web page"
+            >
+                <Globe className="h-6 w-6" />
+                <span className="w-full truncate text-center text-xs">{new URL(item.web_content!.url).hostname}</span>
+                <div className="absolute inset-0 flex items-center justify-center bg-black/0 transition-colors group-hover:bg-black/20">
+                    <Pencil className="h-6 w-6 text-white opacity-0 transition-opacity group-hover:opacity-100 drop-shadow-md" />
+                </div>
+            </button>
+        ) : (
+            <MediaThumbnail url={item.image_url ?? ''} onClick={() => setViewUrl(item.image_url)} />
+        )}
 
         {/* Info */}
         <div className="flex-1 space-y-2">
@@ -369,14 +852,55 @@ function SortableAnnouncementRow({
                     initialDuration={item.display_duration}
                     onSave={updateDuration}
                 />
-                <p>Uploaded {new Date(item.created_at).toLocaleDateString()} at {new Date(item.created_at).toLocaleTimeString()}</p>
+                <EditablePlayback 
+                    item={item}
+                    onSave={updatePlayback}
+                />
+                <EditableAudio 
+                    item={item}
+                    onSave={updateAudio}
+                />
+                <EditableTransition 
+                    item={item}
+                    onSave={updateTransition}
+                />
+                <EditableFit 
+                    item={item}
+                    onSave={updateFit}
+                />
+                <EditableOrientation 
+                    item={item}
+                    onSave={updateOrientation}
+                    onPreview={previewOrientation}
+                />
+                <EditableSchedule 
+                    item={item}
+                    onSave={updateSchedule}
+                />
+                <DaypartEditor 
+                    id={item.id}
+                    initialRules={item.daypart_rules}
+                    onSave={updateDayparts}
+                />
+                <ScreenAssignment 
+                    item={item}
+                    screens={screens}
+                    onSave={updateScreens}
+                />
+                <PlaylistAssignment 
+                    item={item}
+                    playlists={playlists}
+                    playlistItems={playlistItems}
+                    onToggle={togglePlaylistItem}
+                />
+                <p>{item.content_type === 'media' ? 'Uploaded' : 'Created'} {new Date(item.created_at).toLocaleDateString()} at {new Date(item.created_at).toLocaleTimeString()}</p>
             </div>
         </div>
 
         {/* Actions */}
         <div className="flex items-center justify-between gap-4 sm:justify-end">
             {/* Drag Handle for Mobile */}
-             <div {...attributes} {...listeners} className="sm:hidden flex cursor-grab active:cursor-grabbing p-2 text-slate-400">
+             <div {...attributes} {...listeners} className={`${grouped ? 'hidden' : 'sm:hidden flex'} cursor-grab active:cursor-grabbing p-2 text-slate-400`}>
                 <GripVertical className="h-5 w-5" />
             </div>
 
@@ -411,23 +935,214 @@ function SortableAnnouncementRow({
                     </AlertDialogHeader>
                     <AlertDialogFooter>
                         <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction onClick={() => deleteAnnouncement(item.id, item.image_url)} className="bg-red-600 hover:bg-red-700">
+                        <AlertDialogAction onClick={() => deleteAnnouncement(item.id, getMediaUrls(item))} className="bg-red-600 hover:bg-red-700">
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    </div>
+  );
+}
+
+interface SortableGroupRowProps {
+  group: SlideGroup;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  updateGroupDuration: (groupId: string, newDuration: number) => void;
+  toggleGroupActive: (groupId: string, checked: boolean) => void;
+  deleteGroup: (groupId: string) => void;
+  setViewUrl: (url: string | null) => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  isFirst: boolean;
+  isLast: boolean;
+  children: React.ReactNode; // The page rows, shown when expanded
+}
+
+// The pages of an imported PDF, reordered, (de)activated and deleted as one unit
+function SortableGroupRow({
+  group,
+  expanded,
+  onToggleExpanded,
+  updateGroupDuration,
+  toggleGroupActive,
+  deleteGroup,
+  setViewUrl,
+  onMoveUp,
+  onMoveDown,
+  isFirst,
+  isLast,
+  children
+}: SortableGroupRowProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: group.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    zIndex: isDragging ? 10 : 'auto',
+    opacity: isDragging ? 0.3 : 1,
+    position: 'relative' as const,
+  };
+
+  const cover = group.items[0];
+  const activeCount = group.items.filter(item => item.active).length;
+  const pageCount = group.items.length;
+
+  return (
+    <div 
+        ref={setNodeRef} 
+        style={style} 
+        className={`rounded-lg border shadow-sm touch-none ${isDragging ? 'bg-slate-50 border-blue-200' : 'bg-white'}`}
+    >
+      <div className="flex flex-col gap-4 p-4 sm:flex-row sm:items-center">
+        {/* Controls Column (Desktop) */}
+        <div className="hidden sm:flex flex-col items-center gap-1 mr-2 shrink-0">
+             <Button 
+                variant="ghost" 
+                size="icon" 
+                className="h-5 w-6 text-slate-400 hover:bg-white hover:text-slate-900"
+                onClick={onMoveUp}
+                disabled={isFirst}
+                title="Move Up"
+            >
+                <ArrowUp className="h-3 w-3" />
+            </Button>
+
+            <div 
+                {...attributes} 
+                {...listeners} 
+                className="cursor-grab active:cursor-grabbing p-1 text-slate-300 hover:text-slate-600 rounded-md hover:bg-slate-100"
+                title="Drag to reorder"
+            >
+                <GripVertical className="h-5 w-5" />
+            </div>
+
+             <Button 
+                variant="ghost" 
+                size="icon" 
+                className="h-5 w-6 text-slate-400 hover:bg-white hover:text-slate-900"
+                onClick={onMoveDown}
+                disabled={isLast}
+                title="Move Down"
+            >
+                <ArrowDown className="h-3 w-3" />
+            </Button>
+        </div>
+
+        <MediaThumbnail url={cover.image_url ?? ''} onClick={() => setViewUrl(cover.image_url)} />
+
+        {/* Info */}
+        <div className="flex-1 space-y-2">
+            <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 shrink-0 text-slate-400" />
+                <h3 className="font-semibold leading-none tracking-tight">{group.title}</h3>
+                <span className={`inline-flex h-2 w-2 rounded-full ${activeCount > 0 ? 'bg-green-500' : 'bg-slate-300'}`} />
+            </div>
+            <div className="flex flex-col gap-1 text-xs text-slate-500">
+                <p>PDF, {pageCount} page{pageCount === 1 ? '' : 's'}{activeCount > 0 && activeCount < pageCount ? ` (${activeCount} active)` : ''}</p>
+                <EditableDuration 
+                    id={group.groupId}
+                    initialDuration={cover.display_duration}
+                    onSave={updateGroupDuration}
+                />
+                <button
+                    type="button"
+                    className="flex w-fit items-center gap-1 text-slate-500 hover:text-slate-900"
+                    onClick={onToggleExpanded}
+                >
+                    {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    {expanded ? 'Hide pages' : 'Show pages'}
+                </button>
+            </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-between gap-4 sm:justify-end">
+            {/* Drag Handle for Mobile */}
+             <div {...attributes} {...listeners} className="sm:hidden flex cursor-grab active:cursor-grabbing p-2 text-slate-400">
+                <GripVertical className="h-5 w-5" />
+            </div>
+
+            <div className="flex items-center gap-2">
+                <Label htmlFor={`active-${group.id}`} className="text-xs text-slate-600">
+                    {activeCount > 0 ? 'Active' : 'Hidden'}
+                </Label>
+                <Switch 
+                    id={`active-${group.id}`}
+                    checked={activeCount > 0}
+                    onCheckedChange={(checked) => toggleGroupActive(group.groupId, checked)}
+                />
+            </div>
+            
+            <AlertDialog>
+                <AlertDialogTrigger asChild>
+                    <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-8 w-8 text-slate-500 hover:text-red-600 hover:bg-red-50"
+                    >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                    </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete all {pageCount} pages?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            This action cannot be undone. Every page of "{group.title}" will be permanently deleted from your display board.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteGroup(group.groupId)} className="bg-red-600 hover:bg-red-700">
                             Delete
                         </AlertDialogAction>
                     </AlertDialogFooter>
                 </AlertDialogContent>
             </AlertDialog>
         </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-2 border-t bg-slate-50 p-3">
+            {children}
+        </div>
+      )}
     </div>
   );
 }
 
+const CONFIG_TABS = [
+  { id: 'general', label: 'General', icon: Settings },
+  { id: 'security', label: 'Security', icon: Lock },
+  { id: 'screens', label: 'Screens', icon: Tv },
+  { id: 'layouts', label: 'Layouts', icon: LayoutDashboard },
+  { id: 'ticker', label: 'Ticker', icon: Megaphone },
+  { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+];
+
 export default function AdminPanel() {
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [layouts, setLayouts] = useState<Layout[]>([]);
+  const [tickerMessages, setTickerMessages] = useState<TickerMessage[]>([]);
+  const [emergencyAlert, setEmergencyAlert] = useState<EmergencyAlert | null>(null);
+  const [playlistItems, setPlaylistItems] = useState<PlaylistItem[]>([]);
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
   const [hasOrderChanges, setHasOrderChanges] = useState(false);
   const [savingOrder, setSavingOrder] = useState(false);
-  const [settings, setSettings] = useState<AppSettings>({ default_duration: 10, refresh_interval: 5 });
+  const [settings, setSettings] = useState<AppSettings>({ default_duration: 10, refresh_interval: 5, default_transition: 'fade', resume_after_minutes: 5 });
   const [savingSettings, setSavingSettings] = useState(false);
   const [activeTab, setActiveTab] = useState('general');
   const [isPasswordSet, setIsPasswordSet] = useState(false);
@@ -445,6 +1160,12 @@ export default function AdminPanel() {
   
   const [duration, setDuration] = useState(10);
   const [title, setTitle] = useState('');
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('duration');
+  const [uploadOrientation, setUploadOrientation] = useState<OrientationTarget>('any');
+  const [uploadAudio, setUploadAudio] = useState({ enabled: false, volume: 100 });
+  const [playCount, setPlayCount] = useState(1);
+  const [videoLength, setVideoLength] = useState<number | null>(null);
+  const [uploadTransition, setUploadTransition] = useState<TransitionValue>({ type: 'fade', durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
   
   // Scroll Indicator State
   const [canScrollDown, setCanScrollDown] = useState(false);
@@ -458,6 +1179,17 @@ export default function AdminPanel() {
   // View Modal State
   const [viewUrl, setViewUrl] = useState<string | null>(null);
 
+  // Text Slide Editor State (item: null = new slide)
+  const [textEditor, setTextEditor] = useState<{ item: Announcement | null } | null>(null);
+
+  // Web Page Editor State (item: null = new page)
+  const [webEditor, setWebEditor] = useState<{ item: Announcement | null } | null>(null);
+  const [orientationPreview, setOrientationPreview] = useState<Announcement | null>(null);
+
+  // PDF waiting to be split into pages, and the PDF groups expanded in the list
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -465,19 +1197,77 @@ export default function AdminPanel() {
     })
   );
   
+  // The list being edited: the selected playlist in its own order, or everything in global order
+  const listedAnnouncements = useMemo(() => {
+    if (!selectedPlaylistId) return announcements;
+    return playlistItems
+      .filter(pi => pi.playlist_id === selectedPlaylistId)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(pi => announcements.find(a => a.id === pi.announcement_id))
+      .filter((a): a is Announcement => !!a);
+  }, [announcements, playlistItems, selectedPlaylistId]);
+
+  const listedUnits = useMemo(() => toListUnits(listedAnnouncements), [listedAnnouncements]);
+
   const fetchAnnouncements = async () => {
     const { data: announcementsData } = await supabase
       .from('announcements')
       .select('*')
-      .order('order_index', { ascending: true })
-      .order('created_at', { ascending: false });
-    
-    if (announcementsData) setAnnouncements(announcementsData);
+      .order('order_index', { ascending: true })
+      .order('created_at', { ascending: false })
+      .order('page_number', { ascending: true });
+    
+    if (announcementsData) setAnnouncements(announcementsData);
+
+    const { data: screensData } = await supabase
+      .from('screens')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (screensData) setScreens(screensData);
+
+    const { data: playlistsData } = await supabase
+      .from('playlists')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (playlistsData) setPlaylists(playlistsData);
+
+    const { data: playlistItemsData } = await supabase
+      .from('playlist_items')
+      .select('*')
+      .order('order_index', { ascending: true });
+
+    if (playlistItemsData) setPlaylistItems(playlistItemsData);
+
+    const { data: layoutsData } = await supabase
+      .from('layouts')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (layoutsData) setLayouts(layoutsData);
+
+    const { data: tickerData } = await supabase
+      .from('ticker_messages')
+      .select('*')
+      .order('order_index', { ascending: true });
+
+    if (tickerData) setTickerMessages(tickerData);
+
+    const { data: alertData } = await supabase
+      .from('emergency_alerts')
+      .select('*')
+      .eq('active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    setEmergencyAlert(alertData);
     
     // Also fetch settings (Security: Don't select admin_password)
     const { data: settingsData } = await supabase
       .from('settings')
-      .select('id, refresh_interval, default_duration, security_enabled')
+      .select('id, refresh_interval, default_duration, default_transition, ticker_speed, ticker_text_color, ticker_background_color, ticker_position, resume_after_minutes, security_enabled')
       .single();
       
     if (settingsData) {
@@ -498,6 +1288,12 @@ export default function AdminPanel() {
             id: 1, 
             refresh_interval: settings.refresh_interval, 
             default_duration: settings.default_duration,
+            default_transition: settings.default_transition,
+            ticker_speed: settings.ticker_speed,
+            ticker_text_color: settings.ticker_text_color,
+            ticker_background_color: settings.ticker_background_color,
+            ticker_position: settings.ticker_position,
+            resume_after_minutes: settings.resume_after_minutes,
             security_enabled: settings.security_enabled
         };
 
@@ -628,7 +1424,7 @@ export default function AdminPanel() {
     }
 
     return () => observer.disconnect();
-  }, [announcements]);
+  }, [listedAnnouncements]);
 
   // Cleanup preview URL on unmount or change
   useEffect(() => {
@@ -638,11 +1434,36 @@ export default function AdminPanel() {
   }, [uploadPreviewUrl]);
 
   const processFile = (file: File) => {
+    if (isPdfFile(file)) {
+        setPdfFile(file);
+        return;
+    }
+
+    const previewUrl = URL.createObjectURL(file);
     setSelectedFile(file);
-    setUploadPreviewUrl(URL.createObjectURL(file));
+    setUploadPreviewUrl(previewUrl);
     if (!title) {
         setTitle(file.name.split('.').slice(0, -1).join('.'));
     }
+
+    setVideoLength(null);
+    setPlaybackMode('duration');
+    setPlayCount(1);
+    setUploadOrientation('any');
+    setUploadAudio({ enabled: false, volume: 100 });
+    setDuration(settings.default_duration);
+    setUploadTransition({ type: settings.default_transition || 'fade', durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
+
+    // Offer the real video length as the default duration
+    if (file.type.startsWith('video/')) {
+        readVideoDuration(previewUrl)
+            .then((seconds) => {
+                setVideoLength(seconds);
+                setDuration(seconds);
+                setPlaybackMode('until_end');
+            })
+            .catch((err) => console.warn(err));
+    }
   };
 
   const onFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -668,10 +1489,10 @@ export default function AdminPanel() {
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/') || file.type.startsWith('video/')) {
+      if (file.type.startsWith('image/') || file.type.startsWith('video/') || isPdfFile(file)) {
         processFile(file);
       } else {
-        toast.error('Please upload an image or video file');
+        toast.error('Please upload an image, video or PDF file');
       }
     }
   };
@@ -722,6 +1543,14 @@ export default function AdminPanel() {
             image_url: publicUrl,
             title: title || selectedFile.name,
             display_duration: duration,
+            playback_mode: selectedFile.type.startsWith('video/') ? playbackMode : 'duration',
+            play_count: playCount,
+            audio_enabled: selectedFile.type.startsWith('video/') && uploadAudio.enabled,
+            volume: uploadAudio.volume,
+            transition_type: uploadTransition.type,
+            transition_duration: uploadTransition.durationMs,
+            ken_burns: !selectedFile.type.startsWith('video/') && uploadTransition.kenBurns,
+            orientation: uploadOrientation,
             active: true 
           },
         ]);
@@ -768,49 +1597,246 @@ export default function AdminPanel() {
     }
   };
 
+  const updatePlayback = async (id: string, mode: PlaybackMode, count: number) => {
+    const update: Partial<Announcement> = { playback_mode: mode, play_count: count };
+
+    // Play-to-end videos need their real length as the duration (it is the display's fallback)
+    const item = announcements.find(a => a.id === id);
+    if (mode !== 'duration' && item?.image_url) {
+      try {
+        update.display_duration = await readVideoDuration(item.image_url);
+      } catch (err) {
+        console.warn(err);
+      }
+    }
+
+    const { error } = await supabase
+      .from('announcements')
+      .update(update)
+      .eq('id', id);
+      
+    if (error) {
+      toast.error('Failed to update playback');
+    } else {
+      toast.success('Playback updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateAudio = async (id: string, enabled: boolean, volume: number) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ audio_enabled: enabled, volume })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update sound');
+    } else {
+      toast.success('Sound updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateFit = async (id: string, value: FitValue) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({
+        fit_mode: value.mode,
+        fit_color: value.mode === 'color' ? value.color : null,
+        focal_x: value.focalX,
+        focal_y: value.focalY,
+      })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update fit');
+    } else {
+      toast.success('Fit updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateOrientation = async (id: string, orientation: OrientationTarget) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ orientation })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update orientation');
+    } else {
+      toast.success('Orientation updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateTransition = async (id: string, value: TransitionValue) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ 
+        transition_type: value.type, 
+        transition_duration: value.durationMs, 
+        ken_burns: value.kenBurns 
+      })
+      .eq('id', id);
+      
+    if (error) {
+      toast.error('Failed to update transition');
+    } else {
+      toast.success('Transition updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateSchedule = async (id: string, publishAt: string | null, expireAt: string | null) => {
+    if (publishAt && expireAt && new Date(expireAt) <= new Date(publishAt)) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('announcements')
+      .update({ publish_at: publishAt, expire_at: expireAt })
+      .eq('id', id);
+      
+    if (error) {
+      toast.error('Failed to update schedule');
+    } else {
+      toast.success('Schedule updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateDayparts = async (id: string, rules: DaypartRule[] | null) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ daypart_rules: rules })
+      .eq('id', id);
+      
+    if (error) {
+      toast.error('Failed to update recurring hours');
+    } else {
+      toast.success('Recurring hours updated');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateScreens = async (id: string, screenIds: string[]) => {
+    // Optimistic so the chips respond immediately
+    setAnnouncements(prev => prev.map(a => a.id === id ? { ...a, screen_ids: screenIds } : a));
+
+    const { error } = await supabase
+      .from('announcements')
+      .update({ screen_ids: screenIds })
+      .eq('id', id);
+      
+    if (error) {
+      toast.error('Failed to update screens');
+      fetchAnnouncements();
+    }
+  };
+
+  const togglePlaylistItem = async (playlistId: string, announcementId: string) => {
+    const existing = playlistItems.find(pi => pi.playlist_id === playlistId && pi.announcement_id === announcementId);
+    const playlist = playlists.find(p => p.id === playlistId);
+
+    if (existing) {
+      const { error } = await supabase
+        .from('playlist_items')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) {
+        toast.error('Failed to update playlist');
+        return;
+      }
+      toast.success(`Removed from "${playlist?.name}"`);
+    } else {
+      // New items go to the end of the playlist
+      const lastIndex = Math.max(0, ...playlistItems.filter(pi => pi.playlist_id === playlistId).map(pi => pi.order_index));
+      const { error } = await supabase
+        .from('playlist_items')
+        .insert([{ playlist_id: playlistId, announcement_id: announcementId, order_index: lastIndex + 1 }]);
+
+      if (error) {
+        toast.error('Failed to update playlist');
+        return;
+      }
+      toast.success(`Added to "${playlist?.name}"`);
+    }
+    fetchAnnouncements();
+  };
+
+  const selectPlaylist = (playlistId: string | null) => {
+    if (hasOrderChanges) {
+      // Unsaved drag-and-drop changes belong to the list being left
+      toast('Unsaved order changes were discarded', { icon: '↩️' });
+      setHasOrderChanges(false);
+      fetchAnnouncements();
+    }
+    setSelectedPlaylistId(playlistId);
+  };
+
+  // Indexes are into listedUnits, so PDF groups always move as a whole
+  const reorderListed = (oldIndex: number, newIndex: number) => {
+    const ordered = flattenListUnits(arrayMove(listedUnits, oldIndex, newIndex));
+
+    if (selectedPlaylistId) {
+      const orderedIds = ordered.map(a => a.id);
+      setPlaylistItems(prev => prev.map(pi => pi.playlist_id === selectedPlaylistId 
+        ? { ...pi, order_index: orderedIds.indexOf(pi.announcement_id) + 1 } 
+        : pi
+      ));
+    } else {
+      setAnnouncements(ordered);
+    }
+    setHasOrderChanges(true);
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
     if (over && active.id !== over.id) {
-      setAnnouncements((items) => {
-        const oldIndex = items.findIndex((item) => item.id === active.id);
-        const newIndex = items.findIndex((item) => item.id === over.id);
-        
-        setHasOrderChanges(true);
-        return arrayMove(items, oldIndex, newIndex);
-      });
+      const oldIndex = listedUnits.findIndex((unit) => unit.id === active.id);
+      const newIndex = listedUnits.findIndex((unit) => unit.id === over.id);
+      if (oldIndex !== -1 && newIndex !== -1) reorderListed(oldIndex, newIndex);
     }
   };
 
   const moveAnnouncement = (index: number, direction: 'up' | 'down') => {
     if (direction === 'up' && index === 0) return;
-    if (direction === 'down' && index === announcements.length - 1) return;
+    if (direction === 'down' && index === listedUnits.length - 1) return;
 
-    const newAnnouncements = [...announcements];
-    const targetIndex = direction === 'up' ? index - 1 : index + 1;
-    
     // Swap in UI immediately
-    [newAnnouncements[index], newAnnouncements[targetIndex]] = [newAnnouncements[targetIndex], newAnnouncements[index]];
-    setAnnouncements(newAnnouncements);
-    setHasOrderChanges(true);
+    reorderListed(index, direction === 'up' ? index - 1 : index + 1);
   };
 
   const saveOrder = async () => {
     setSavingOrder(true);
     try {
-        // Must include all required fields for upsert to work (Postgres requirement for INSERT path)
-        const updates = announcements.map((item, idx) => ({
-            ...item,
-            order_index: idx + 1,
-        }));
-
-        const { error } = await supabase
-            .from('announcements')
-            .upsert(
-                updates,
-                { onConflict: 'id', ignoreDuplicates: false } 
-            )
-            .select();
+        let error;
+
+        if (selectedPlaylistId) {
+            // Playlist order lives on playlist_items, the global order is untouched
+            const updates = playlistItems.filter(pi => pi.playlist_id === selectedPlaylistId);
+            ({ error } = await supabase
+                .from('playlist_items')
+                .upsert(updates, { onConflict: 'id', ignoreDuplicates: false }));
+        } else {
+            // Must include all required fields for upsert to work (Postgres requirement for INSERT path)
+            const updates = announcements.map((item, idx) => ({
+                ...item,
+                order_index: idx + 1,
+            }));
+
+            ({ error } = await supabase
+                .from('announcements')
+                .upsert(
+                    updates,
+                    { onConflict: 'id', ignoreDuplicates: false } 
+                )
+                .select());
+        }
 
         if (error) throw error;
         toast.success("Order saved successfully");
@@ -844,30 +1870,76 @@ export default function AdminPanel() {
     }
   };
 
-  const deleteAnnouncement = async (id: string, imageUrl: string) => {
+  const toggleGroupActive = async (groupId: string, checked: boolean) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ active: checked })
+      .eq('group_id', groupId);
+    
+    if (error) {
+      toast.error('Failed to update status');
+    } else {
+      toast.success(checked ? 'All pages are now active' : 'All pages are now hidden');
+      fetchAnnouncements();
+    }
+  };
+
+  const updateGroupDuration = async (groupId: string, newDuration: number) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ display_duration: newDuration })
+      .eq('group_id', groupId);
+      
+    if (error) {
+      toast.error('Failed to update duration');
+    } else {
+      toast.success('Duration updated for all pages');
+      fetchAnnouncements();
+    }
+  };
+
+  const deleteGroup = async (groupId: string) => {
+    const pages = announcements.filter(a => a.group_id === groupId);
+    const deletingToast = toast.loading(`Deleting ${pages.length} pages...`);
+
+    try {
+        await removeFromStorage(pages.flatMap(getMediaUrls));
+
+        const { error } = await supabase
+            .from('announcements')
+            .delete()
+            .eq('group_id', groupId);
+
+        if (error) throw error;
+
+        toast.success('PDF deleted successfully');
+        fetchAnnouncements();
+    } catch (error) {
+        console.error('Error deleting group:', error);
+        toast.error('Failed to delete PDF');
+    } finally {
+        toast.dismiss(deletingToast);
+    }
+  };
+
+  const toggleGroupExpanded = (groupId: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  const deleteAnnouncement = async (id: string, mediaUrls: string[]) => {
     // Note: Confirmation handled by UI now
     
     const deletingToast = toast.loading('Deleting display...');
     
     try {
-        // 1. Delete file from Storage
-        if (imageUrl) {
-            // Extract filename from the public URL
-            // URL format: .../storage/v1/object/public/announcements/[filename]
-            const fileName = imageUrl.split('/').pop();
-            
-            if (fileName) {
-                const { error: storageError } = await supabase.storage
-                    .from('announcements')
-                    .remove([fileName]);
-                    
-                if (storageError) {
-                    console.error('Error removing file from storage:', storageError);
-                    // We continue to delete the record even if file deletion fails
-                    // to keep the UI consistent, though strictly we failed the "cleanup"
-                }
-            }
-        }
+        // 1. Delete files from Storage (the upload, or a text slide's background image).
+        // Failures are only logged, so the record is deleted either way.
+        await removeFromStorage(mediaUrls);
 
         // 2. Delete record from Database
         const { error } = await supabase
@@ -901,7 +1973,8 @@ export default function AdminPanel() {
                 <h1 className="text-2xl font-bold tracking-tight text-slate-900">Display Settings</h1>
                 <p className="text-slate-500">Manage the content displayed on your display system.</p>
             </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            <EmergencyBroadcast onChange={fetchAnnouncements} />
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="outline" className="text-red-600 hover:text-red-700 hover:bg-red-50">
@@ -931,6 +2004,10 @@ export default function AdminPanel() {
           </div>
         </header>
 
+        {emergencyAlert && (
+          <ActiveEmergencyBanner alert={emergencyAlert} onChange={fetchAnnouncements} />
+        )}
+
         <div className="grid gap-6 lg:grid-cols-3">
             {/* Left Column: Upload & Settings */}
             <div className="lg:col-span-1 flex flex-col gap-6 lg:h-[calc(100vh-12rem)]">
@@ -962,17 +2039,28 @@ export default function AdminPanel() {
                                     <p className="text-xs font-medium text-slate-700">
                                         {isDragging ? 'Drop file here' : 'Click to Upload Media'}
                                     </p>
+                                    <p className="text-[10px] text-slate-400">Images, videos or PDFs</p>
                                 </div>
                                 <Input
                                     id="image"
                                     type="file"
-                                    accept="image/*,video/*"
+                                    accept="image/*,video/*,application/pdf"
                                     onChange={onFileSelect}
                                     disabled={uploading}
                                     className="absolute inset-0 cursor-pointer opacity-0 h-full w-full"
                                 />
                             </div>
                         </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <Button variant="outline" onClick={() => setTextEditor({ item: null })}>
+                                <Type className="mr-2 h-4 w-4" />
+                                Create Text Slide
+                            </Button>
+                            <Button variant="outline" onClick={() => setWebEditor({ item: null })}>
+                                <Globe className="mr-2 h-4 w-4" />
+                                Add Web Page
+                            </Button>
+                        </div>
                     </CardContent>
                 </Card>
 
@@ -988,33 +2076,25 @@ export default function AdminPanel() {
                     <ScrollArea className="flex-1">
                         <CardContent className="space-y-4 p-6 pt-0">
                         {/* Tabs Navigation */}
-                        <div className="flex items-center gap-1 rounded-lg bg-slate-100 p-1">
-                             <button
-                                onClick={() => setActiveTab('general')}
-                                className={`flex-1 rounded-md px-3 py-1.5 text-sm font-medium transition-all ${
-                                    activeTab === 'general' 
-                                    ? 'bg-white text-slate-900 shadow-sm' 
-                                    : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200/50'
-                                }`}
-                             >
-                                <div className="flex items-center justify-center gap-2">
-                                    <Settings className="h-3.5 w-3.5" />
-                                    General
-                                </div>
-                             </button>
+                        <div className="flex flex-wrap items-center gap-1 rounded-lg bg-slate-100 p-1">
+                            {CONFIG_TABS.map(tab => (
                              <button
-                                onClick={() => setActiveTab('security')}
-                                className={`flex-1 rounded-md px-3 py-1.5 text-sm font-medium transition-all ${
-                                    activeTab === 'security' 
+                                key={tab.id}
+                                onClick={() => setActiveTab(tab.id)}
+                                className={`flex-1 rounded-md px-2 py-1.5 text-sm font-medium transition-all ${
+                                    activeTab === tab.id 
                                     ? 'bg-white text-slate-900 shadow-sm' 
                                     : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200/50'
                                 }`}
                              >
                                 <div className="flex items-center justify-center gap-2">
-                                    {settings.security_enabled ? <Lock className="h-3.5 w-3.5 text-green-600" /> : <Unlock className="h-3.5 w-3.5" />}
-                                    Security
+                                    {tab.id === 'security' 
+                                        ? (settings.security_enabled ? <Lock className="h-3.5 w-3.5 text-green-600" /> : <Unlock className="h-3.5 w-3.5" />)
+                                        : <tab.icon className="h-3.5 w-3.5" />}
+                                    {tab.label}
                                 </div>
                              </button>
+                            ))}
                         </div>
 
                         {/* General Tab */}
@@ -1033,7 +2113,7 @@ export default function AdminPanel() {
                                         }}
                                     />
                                     <p className="text-[0.8rem] text-slate-500">
-                                        How often the display board checks for new content.
+                                        How often the display board re-checks for content if live updates are unavailable.
                                     </p>
                                 </div>
 
@@ -1054,6 +2134,35 @@ export default function AdminPanel() {
                                     </p>
                                 </div>
 
+                                <div className="space-y-2">
+                                    <Label htmlFor="resumeAfter">Remote Pause Timeout (minutes)</Label>
+                                    <Input 
+                                        id="resumeAfter" 
+                                        type="number" 
+                                        min="0"
+                                        value={settings.resume_after_minutes ?? 5}
+                                        onChange={(e) => setSettings({...settings, resume_after_minutes: Math.max(0, Number(e.target.value))})}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') saveSettings();
+                                        }}
+                                    />
+                                    <p className="text-[0.8rem] text-slate-500">
+                                        A display paused with its TV remote or keyboard starts playing again after this long without a key press. 0 keeps it paused.
+                                    </p>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <TransitionPicker 
+                                        value={{ type: settings.default_transition || 'fade', durationMs: DEFAULT_TRANSITION_MS, kenBurns: false }}
+                                        onChange={(value) => setSettings({...settings, default_transition: value.type})}
+                                        showDuration={false}
+                                        idPrefix="default"
+                                    />
+                                    <p className="text-[0.8rem] text-slate-500">
+                                        Default transition for new uploads (can be overridden).
+                                    </p>
+                                </div>
+
                                 <Button 
                                     className="w-full" 
                                     onClick={saveSettings}
@@ -1154,6 +2263,109 @@ export default function AdminPanel() {
                                 </Button>
                             </div>
                         )}
+
+                        {/* Screens Tab */}
+                        {activeTab === 'screens' && (
+                            <div className="animate-in fade-in slide-in-from-right-1 duration-200">
+                                <div className="space-y-6">
+                                    <ScreenHealth screens={screens} announcements={announcements} />
+                                    <PairedDisplays screens={screens} />
+                                    <ScreenManager screens={screens} playlists={playlists} layouts={layouts} onChange={fetchAnnouncements} />
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Layouts Tab */}
+                        {activeTab === 'layouts' && (
+                            <div className="animate-in fade-in slide-in-from-right-1 duration-200">
+                                <LayoutManager layouts={layouts} screens={screens} onChange={fetchAnnouncements} />
+                            </div>
+                        )}
+
+                        {/* Ticker Tab */}
+                        {activeTab === 'ticker' && (
+                            <div className="space-y-4 animate-in fade-in slide-in-from-right-1 duration-200">
+                                <TickerManager messages={tickerMessages} onChange={fetchAnnouncements} />
+
+                                <div className="space-y-4 rounded-md border p-4 bg-white">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="tickerSpeed">Scroll Speed ({settings.ticker_speed ?? DEFAULT_TICKER_STYLE.speed})</Label>
+                                        <input
+                                            id="tickerSpeed"
+                                            type="range"
+                                            min="2"
+                                            max="30"
+                                            value={settings.ticker_speed ?? DEFAULT_TICKER_STYLE.speed}
+                                            onChange={(e) => setSettings({...settings, ticker_speed: Number(e.target.value)})}
+                                            className="w-full accent-blue-600"
+                                        />
+                                        <p className="text-[0.8rem] text-slate-500">
+                                            Percent of the screen width the text moves per second.
+                                        </p>
+                                    </div>
+
+                                    <div className="flex flex-wrap items-end gap-4">
+                                        <div className="space-y-1.5">
+                                            <Label htmlFor="tickerPosition" className="text-xs">Position</Label>
+                                            <select
+                                                id="tickerPosition"
+                                                value={settings.ticker_position ?? DEFAULT_TICKER_STYLE.position}
+                                                onChange={(e) => setSettings({...settings, ticker_position: e.target.value as TickerPosition})}
+                                                className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                            >
+                                                <option value="bottom">Bottom</option>
+                                                <option value="top">Top</option>
+                                            </select>
+                                        </div>
+                                        <div className="space-y-1.5">
+                                            <Label htmlFor="tickerText" className="text-xs">Text</Label>
+                                            <input
+                                                id="tickerText"
+                                                type="color"
+                                                value={settings.ticker_text_color ?? DEFAULT_TICKER_STYLE.textColor}
+                                                onChange={(e) => setSettings({...settings, ticker_text_color: e.target.value})}
+                                                className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                                            />
+                                        </div>
+                                        <div className="space-y-1.5">
+                                            <Label htmlFor="tickerBackground" className="text-xs">Background</Label>
+                                            <input
+                                                id="tickerBackground"
+                                                type="color"
+                                                value={settings.ticker_background_color ?? DEFAULT_TICKER_STYLE.backgroundColor}
+                                                onChange={(e) => setSettings({...settings, ticker_background_color: e.target.value})}
+                                                className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <Button 
+                                        className="w-full" 
+                                        onClick={saveSettings}
+                                        disabled={savingSettings}
+                                    >
+                                        {savingSettings ? (
+                                            <>
+                                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                Saving...
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Save className="mr-2 h-4 w-4" />
+                                                Save Ticker Style
+                                            </>
+                                        )}
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Analytics Tab */}
+                        {activeTab === 'analytics' && (
+                            <div className="animate-in fade-in slide-in-from-right-1 duration-200">
+                                <PlayAnalytics />
+                            </div>
+                        )}
                         </CardContent>
                     </ScrollArea>
                 </Card>
@@ -1216,22 +2428,33 @@ export default function AdminPanel() {
             {/* Right Column: List */}
             <div className="lg:col-span-2">
                 <Card className="flex flex-col h-[500px] lg:h-[calc(100vh-12rem)]">
-                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
-                        <div className="flex flex-col space-y-1.5">
-                            <CardTitle className="flex items-center gap-2">
-                                <List className="h-5 w-5" />
-                                Manage Content
-                            </CardTitle>
-                            <CardDescription>
-                                {announcements.length} active display{announcements.length !== 1 && 's'}
-                            </CardDescription>
+                    <CardHeader className="space-y-3 pb-4">
+                        <div className="flex flex-row items-center justify-between">
+                            <div className="flex flex-col space-y-1.5">
+                                <CardTitle className="flex items-center gap-2">
+                                    <List className="h-5 w-5" />
+                                    Manage Content
+                                </CardTitle>
+                                <CardDescription>
+                                    {selectedPlaylistId 
+                                        ? `${listedAnnouncements.length} item${listedAnnouncements.length !== 1 ? 's' : ''} in this playlist`
+                                        : `${announcements.length} active display${announcements.length !== 1 ? 's' : ''}`}
+                                </CardDescription>
+                            </div>
+                            {hasOrderChanges && (
+                                <Button size="sm" onClick={saveOrder} disabled={savingOrder}>
+                                    {savingOrder ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                    Save Order
+                                </Button>
+                            )}
                         </div>
-                        {hasOrderChanges && (
-                            <Button size="sm" onClick={saveOrder} disabled={savingOrder}>
-                                {savingOrder ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                                Save Order
-                            </Button>
-                        )}
+                        <PlaylistPicker 
+                            playlists={playlists}
+                            screens={screens}
+                            selectedPlaylistId={selectedPlaylistId}
+                            onSelect={selectPlaylist}
+                            onChange={fetchAnnouncements}
+                        />
                     </CardHeader>
                     <CardContent className="flex-1 p-0 overflow-hidden relative">
                         <ScrollArea className="h-full p-6">
@@ -1241,29 +2464,93 @@ export default function AdminPanel() {
                                 onDragEnd={handleDragEnd}
                             >
                                 <SortableContext 
-                                    items={announcements.map(a => a.id)}
+                                    items={listedUnits.map(unit => unit.id)}
                                     strategy={verticalListSortingStrategy}
                                 >
                                     <div className="space-y-4">
-                                        {announcements.map((item, index) => (
+                                        {listedUnits.map((unit, index) => isSlideGroup(unit) ? (
+                                            <SortableGroupRow
+                                                key={unit.id}
+                                                group={unit}
+                                                expanded={expandedGroups.has(unit.groupId)}
+                                                onToggleExpanded={() => toggleGroupExpanded(unit.groupId)}
+                                                updateGroupDuration={updateGroupDuration}
+                                                toggleGroupActive={toggleGroupActive}
+                                                deleteGroup={deleteGroup}
+                                                setViewUrl={setViewUrl}
+                                                onMoveUp={() => moveAnnouncement(index, 'up')}
+                                                onMoveDown={() => moveAnnouncement(index, 'down')}
+                                                isFirst={index === 0}
+                                                isLast={index === listedUnits.length - 1}
+                                            >
+                                                {unit.items.map(item => (
+                                                    <SortableAnnouncementRow 
+                                                        key={item.id}
+                                                        item={item}
+                                                        screens={screens}
+                                                        playlists={playlists}
+                                                        playlistItems={playlistItems}
+                                                        updateTitle={updateTitle}
+                                                        updateDuration={updateDuration}
+                                                        updatePlayback={updatePlayback}
+                                                        updateTransition={updateTransition}
+                                                        updateAudio={updateAudio}
+                                                        updateFit={updateFit}
+                                                        updateOrientation={updateOrientation}
+                                                        previewOrientation={setOrientationPreview}
+                                                        updateSchedule={updateSchedule}
+                                                        updateDayparts={updateDayparts}
+                                                        updateScreens={updateScreens}
+                                                        togglePlaylistItem={togglePlaylistItem}
+                                                        toggleActive={toggleActive}
+                                                        deleteAnnouncement={deleteAnnouncement}
+                                                        setViewUrl={setViewUrl}
+                                                        editTextSlide={(item) => setTextEditor({ item })}
+                                                        editWebSlide={(item) => setWebEditor({ item })}
+                                                        onMoveUp={() => {}}
+                                                        onMoveDown={() => {}}
+                                                        isFirst
+                                                        isLast
+                                                        grouped
+                                                    />
+                                                ))}
+                                            </SortableGroupRow>
+                                        ) : (
                                             <SortableAnnouncementRow 
-                                                key={item.id}
-                                                item={item}
+                                                key={unit.id}
+                                                item={unit.item}
+                                                screens={screens}
+                                                playlists={playlists}
+                                                playlistItems={playlistItems}
                                                 updateTitle={updateTitle}
                                                 updateDuration={updateDuration}
+                                                updatePlayback={updatePlayback}
+                                                updateTransition={updateTransition}
+                                                updateAudio={updateAudio}
+                                                updateFit={updateFit}
+                                                updateOrientation={updateOrientation}
+                                                previewOrientation={setOrientationPreview}
+                                                updateSchedule={updateSchedule}
+                                                updateDayparts={updateDayparts}
+                                                updateScreens={updateScreens}
+                                                togglePlaylistItem={togglePlaylistItem}
                                                 toggleActive={toggleActive}
                                                 deleteAnnouncement={deleteAnnouncement}
                                                 setViewUrl={setViewUrl}
+                                                editTextSlide={(item) => setTextEditor({ item })}
+                                                editWebSlide={(item) => setWebEditor({ item })}
                                                 onMoveUp={() => moveAnnouncement(index, 'up')}
                                                 onMoveDown={() => moveAnnouncement(index, 'down')}
                                                 isFirst={index === 0}
-                                                isLast={index === announcements.length - 1}
+                                                isLast={index === listedUnits.length - 1}
                                             />
                                         ))}
 
-                                        {announcements.length === 0 && (
+                                        {listedAnnouncements.length === 0 && (
                                             <div className="flex h-32 flex-col items-center justify-center rounded-lg border border-dashed text-slate-400">
-                                                <p className="text-sm">No displays found</p>
+                                                <p className="text-sm">
+                                                    {selectedPlaylistId ? 'This playlist is empty. Add items from "All content".' : 'No displays found'}
+                                                </p>
                                             </div>
                                         )}
                                         
@@ -1275,7 +2562,7 @@ export default function AdminPanel() {
                         </ScrollArea>
                         
                         {/* Scroll Indicator Overlay */}
-                        {canScrollDown && announcements.length > 0 && (
+                        {canScrollDown && listedAnnouncements.length > 0 && (
                             <div className="absolute bottom-4 left-0 right-0 flex justify-center pointer-events-none">
                                 <div className="flex items-center gap-2 rounded-full bg-slate-900/10 backdrop-blur-sm px-4 py-1.5 text-xs font-medium text-slate-600 shadow-sm animate-pulse border border-slate-200/50">
                                     More below <ChevronDown className="h-3 w-3" />
@@ -1307,7 +2594,7 @@ export default function AdminPanel() {
         {/* Upload Confirmation Modal */}
         {selectedFile && uploadPreviewUrl && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
-            <Card className="w-full max-w-lg border-0 shadow-2xl">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Confirm Upload</CardTitle>
                 <Button variant="ghost" size="icon" onClick={cancelUpload}>
@@ -1349,7 +2636,60 @@ export default function AdminPanel() {
                                 if (e.key === 'Enter') confirmUpload();
                             }}
                         />
+                        {videoLength !== null && (
+                            <p className="text-[0.8rem] text-slate-500">
+                                Video length: {videoLength}s
+                                {duration !== videoLength && (
+                                    <button type="button" className="ml-2 text-blue-600 hover:underline" onClick={() => setDuration(videoLength)}>
+                                        Use video length
+                                    </button>
+                                )}
+                            </p>
+                        )}
+                     </div>
+                     {selectedFile.type.startsWith('video/') && (
+                        <div className="space-y-1.5">
+                            <Label>Video Playback</Label>
+                            <PlaybackModeFields 
+                                mode={playbackMode} 
+                                count={playCount} 
+                                onChange={(mode, count) => { setPlaybackMode(mode); setPlayCount(count); }} 
+                            />
+                            <p className="text-[0.8rem] text-slate-500">
+                                {playbackMode === 'duration' 
+                                    ? 'The video loops and is cut off when the duration is up.' 
+                                    : 'The display moves on when the video finishes.'}
+                            </p>
+                            <AudioFields 
+                                enabled={uploadAudio.enabled} 
+                                volume={uploadAudio.volume} 
+                                onChange={(enabled, volume) => setUploadAudio({ enabled, volume })} 
+                                idPrefix="upload" 
+                            />
+                        </div>
+                     )}
+                     <div className="space-y-1.5">
+                        <Label htmlFor="uploadOrientation">Plays On</Label>
+                        <select
+                            id="uploadOrientation"
+                            value={uploadOrientation}
+                            onChange={(e) => setUploadOrientation(e.target.value as OrientationTarget)}
+                            className="h-10 w-full rounded-md border border-slate-200 bg-white px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        >
+                            {ORIENTATION_TARGETS.map(target => (
+                                <option key={target.value} value={target.value}>{target.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-[0.8rem] text-slate-500">
+                            E.g. limit portrait posters to portrait screens instead of letterboxing them on landscape ones.
+                        </p>
                      </div>
+                     <TransitionPicker 
+                        value={uploadTransition}
+                        onChange={setUploadTransition}
+                        showKenBurns={!selectedFile.type.startsWith('video/')}
+                        idPrefix="upload"
+                     />
                   </div>
                   
                   <div className="flex justify-end gap-2 pt-4">
@@ -1366,6 +2706,44 @@ export default function AdminPanel() {
           </div>
         )}
 
+        {/* Text Slide Editor */}
+        {textEditor && (
+          <TextSlideEditor
+            item={textEditor.item}
+            defaultDuration={settings.default_duration}
+            defaultTransition={settings.default_transition || 'fade'}
+            onClose={() => setTextEditor(null)}
+            onSaved={fetchAnnouncements}
+          />
+        )}
+
+        {/* PDF Import */}
+        {pdfFile && (
+          <PdfImporter
+            file={pdfFile}
+            defaultDuration={settings.default_duration}
+            defaultTransition={settings.default_transition || 'fade'}
+            onClose={() => setPdfFile(null)}
+            onSaved={fetchAnnouncements}
+          />
+        )}
+
+        {/* Web Page Editor */}
+        {webEditor && (
+          <WebSlideEditor
+            item={webEditor.item}
+            defaultDuration={settings.default_duration}
+            defaultTransition={settings.default_transition || 'fade'}
+            onClose={() => setWebEditor(null)}
+            onSaved={fetchAnnouncements}
+          />
+        )}
+
+        {/* Orientation Preview */}
+        {orientationPreview && (
+          <OrientationPreview item={orientationPreview} onClose={() => setOrientationPreview(null)} />
+        )}
+
         {/* Full View Modal */}
         {viewUrl && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-md" onClick={() => setViewUrl(null)}>
@@ -1379,7 +2757,7 @@ export default function AdminPanel() {
             </Button>
             
             <div className="relative max-h-screen w-full max-w-5xl" onClick={(e) => e.stopPropagation()}>
-               {/\.(mp4|webm|ogg|mov)$/i.test(viewUrl) ? (
+               {isVideoUrl(viewUrl) ? (
                   <video src={viewUrl} controls autoPlay className="h-full w-full rounded-lg shadow-2xl" />
                ) : (
                   <img src={viewUrl} alt="Full view" className="h-full w-full object-contain rounded-lg shadow-2xl" />
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { getScheduleStatus, toDateTimeLocal, fromDateTimeLocal, type ScheduleStatus } from '../lib/schedule';
+import type { Announcement } from '../types';
+import { Check, X, CalendarClock } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+// Anything with a publish / expiry window: announcements, ticker messages
+type Schedulable = Pick<Announcement, 'id' | 'publish_at' | 'expire_at'>;
+
+const SCHEDULE_BADGE_STYLES: Record<ScheduleStatus, string> = {
+  scheduled: 'bg-blue-50 text-blue-700 border-blue-200',
+  live: 'bg-green-50 text-green-700 border-green-200',
+  expired: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+// Helper component for editable publish / expiry window
+export default function EditableSchedule({ item, onSave }: { item: Schedulable, onSave: (id: string, publishAt: string | null, expireAt: string | null) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [publishAt, setPublishAt] = useState(toDateTimeLocal(item.publish_at));
+  const [expireAt, setExpireAt] = useState(toDateTimeLocal(item.expire_at));
+  const hasWindow = !!(item.publish_at || item.expire_at);
+  const status = getScheduleStatus(item);
+
+  const handleSave = () => {
+    onSave(item.id, fromDateTimeLocal(publishAt), fromDateTimeLocal(expireAt));
+    setIsEditing(false);
+  };
+
+  const startEditing = () => {
+    setPublishAt(toDateTimeLocal(item.publish_at));
+    setExpireAt(toDateTimeLocal(item.expire_at));
+    setIsEditing(true);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor={`publish-${item.id}`} className="text-xs text-slate-500">From</Label>
+        <Input 
+          id={`publish-${item.id}`}
+          type="datetime-local"
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+          className="h-6 w-auto text-xs px-2 py-0"
+        />
+        <Label htmlFor={`expire-${item.id}`} className="text-xs text-slate-500">Until</Label>
+        <Input 
+          id={`expire-${item.id}`}
+          type="datetime-local"
+          value={expireAt}
+          onChange={(e) => setExpireAt(e.target.value)}
+          className="h-6 w-auto text-xs px-2 py-0"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+        />
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-green-600" onClick={handleSave}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400" onClick={() => setIsEditing(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 group/schedule">
+      {hasWindow ? (
+        <>
+          <span className={`inline-flex items-center rounded border px-1.5 py-px text-[10px] font-medium uppercase tracking-wide ${SCHEDULE_BADGE_STYLES[status]}`}>
+            {status}
+          </span>
+          <span>
+            {item.publish_at ? new Date(item.publish_at).toLocaleString() : 'Now'}
+            {' → '}
+            {item.expire_at ? new Date(item.expire_at).toLocaleString() : 'No end'}
+          </span>
+        </>
+      ) : (
+        <span>Always shown</span>
+      )}
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-4 w-4 opacity-0 group-hover/schedule:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit schedule"
+      >
+        <CalendarClock className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { EMERGENCY_TEMPLATES, type EmergencyAlertDraft } from '../lib/emergency';
+import type { EmergencyAlert } from '../types';
+import toast from 'react-hot-toast';
+import { X, Loader2, Siren, TriangleAlert } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import EmergencyOverlay from './EmergencyOverlay';
+
+// Ends whatever alert is in force; shared by "Clear" and by broadcasting a replacement.
+// The database stamps cleared_at.
+async function clearActiveAlerts() {
+  return supabase
+    .from('emergency_alerts')
+    .update({ active: false })
+    .eq('active', true);
+}
+
+// Shown across the top of the admin panel for as long as an alert is on the screens
+export function ActiveEmergencyBanner({ alert, onChange }: { alert: EmergencyAlert; onChange: () => void }) {
+  const [clearing, setClearing] = useState(false);
+
+  const clearAlert = async () => {
+    setClearing(true);
+    const { error } = await clearActiveAlerts();
+    setClearing(false);
+
+    if (error) {
+      toast.error('Failed to clear the alert');
+    } else {
+      toast.success('Alert cleared, screens are back to normal');
+      onChange();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-red-300 bg-red-50 p-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-3">
+        <TriangleAlert className="h-6 w-6 shrink-0 animate-pulse text-red-600" />
+        <div>
+          <p className="font-semibold text-red-800">Emergency alert is live on every screen</p>
+          <p className="text-sm text-red-700">
+            "{alert.title}", since {new Date(alert.created_at).toLocaleString()}
+          </p>
+        </div>
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" className="shrink-0 border-red-300 text-red-700 hover:bg-red-100" disabled={clearing}>
+            {clearing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Clear Alert
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear the emergency alert?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All screens will return to their normal content within a few seconds. Only do this once the all-clear has been given.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={clearAlert}>Clear Alert</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface EmergencyBroadcastProps {
+  onChange: () => void;
+}
+
+// The "Emergency Broadcast" button and its composer: pick a template, adjust it, confirm
+export default function EmergencyBroadcast({ onChange }: EmergencyBroadcastProps) {
+  const [open, setOpen] = useState(false);
+  const [templateId, setTemplateId] = useState(EMERGENCY_TEMPLATES[0].id);
+  const [draft, setDraft] = useState<EmergencyAlertDraft>(EMERGENCY_TEMPLATES[0].alert);
+  const [sending, setSending] = useState(false);
+
+  const update = (patch: Partial<EmergencyAlertDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+  };
+
+  const openComposer = () => {
+    setTemplateId(EMERGENCY_TEMPLATES[0].id);
+    setDraft(EMERGENCY_TEMPLATES[0].alert);
+    setOpen(true);
+  };
+
+  const broadcast = async () => {
+    setSending(true);
+    try {
+      // Replace rather than stack: only the newest alert is ever shown
+      const { error: clearError } = await clearActiveAlerts();
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('emergency_alerts')
+        .insert([{ ...draft, title: draft.title.trim(), message: draft.message.trim(), active: true }]);
+
+      if (error) throw error;
+
+      toast.success('Emergency alert sent to every screen');
+      setOpen(false);
+      onChange();
+    } catch (error) {
+      console.error('Error broadcasting alert:', error);
+      toast.error('Failed to broadcast the alert');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Button onClick={openComposer} className="bg-red-600 font-semibold hover:bg-red-700">
+        <Siren className="mr-2 h-4 w-4" />
+        Emergency Broadcast
+      </Button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
+          <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-red-700">
+                <Siren className="h-5 w-5" />
+                Emergency Broadcast
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={() => setOpen(false)} disabled={sending}>
+                <X className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {EMERGENCY_TEMPLATES.map(template => (
+                  <Button
+                    key={template.id}
+                    variant={templateId === template.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => {
+                      setTemplateId(template.id);
+                      setDraft(template.alert);
+                    }}
+                  >
+                    {template.label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="relative aspect-video w-full overflow-hidden rounded-md [container-type:size]">
+                <EmergencyOverlay alert={draft} />
+              </div>
+
+              <div className="grid gap-4 text-sm">
+                <div className="space-y-1.5">
+                  <Label htmlFor="alertTitle">Headline</Label>
+                  <Input
+                    id="alertTitle"
+                    value={draft.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="alertMessage">Instructions</Label>
+                  <textarea
+                    id="alertMessage"
+                    rows={3}
+                    value={draft.message}
+                    onChange={(e) => update({ message: e.target.value })}
+                    className="flex w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm placeholder:text-slate-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  />
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="alertBackground">Background</Label>
+                    <input
+                      id="alertBackground"
+                      type="color"
+                      value={draft.background_color}
+                      onChange={(e) => update({ background_color: e.target.value })}
+                      className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="alertText">Text</Label>
+                    <input
+                      id="alertText"
+                      type="color"
+                      value={draft.text_color}
+                      onChange={(e) => update({ text_color: e.target.value })}
+                      className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                    />
+                  </div>
+                  <div className="flex h-9 items-center gap-2">
+                    <Switch
+                      id="alertFlashing"
+                      checked={draft.flashing}
+                      onCheckedChange={(checked) => update({ flashing: checked })}
+                    />
+                    <Label htmlFor="alertFlashing">Flash slowly</Label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button variant="outline" onClick={() => setOpen(false)} disabled={sending}>
+                  Cancel
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={sending || !draft.title.trim()} className="bg-red-600 hover:bg-red-700">
+                      {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Broadcast to All Screens
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Broadcast "{draft.title.trim()}" now?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every screen will immediately stop its content and show this alert until someone clears it in the admin panel.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={broadcast} className="bg-red-600 hover:bg-red-700">
+                        Broadcast
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+}
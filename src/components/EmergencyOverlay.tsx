@@ -0,0 +1,29 @@
+import React from 'react';
+import { TriangleAlert } from 'lucide-react';
+import type { EmergencyAlertDraft } from '../lib/emergency';
+
+interface EmergencyOverlayProps {
+  alert: EmergencyAlertDraft;
+}
+
+// Full-screen emergency alert. Sizes are in container units, so the admin preview matches the TV.
+export default function EmergencyOverlay({ alert }: EmergencyOverlayProps) {
+  return (
+    <div
+      role="alert"
+      className="absolute inset-0 z-[100] flex flex-col items-center justify-center gap-[3cqh] p-[6cqh] text-center"
+      style={{
+        backgroundColor: alert.background_color,
+        color: alert.text_color,
+        animation: alert.flashing ? 'emergency-flash 2s ease-in-out infinite' : undefined,
+      }}
+    >
+      <TriangleAlert className="h-[16cqh] w-[16cqh]" strokeWidth={2.5} />
+      <p className="text-[3cqh] font-semibold uppercase tracking-[0.3em] opacity-80">Emergency broadcast</p>
+      <h1 className="text-[10cqh] font-extrabold leading-tight">{alert.title}</h1>
+      {alert.message && (
+        <p className="max-w-[80cqw] whitespace-pre-line text-[4.5cqh] font-medium leading-snug">{alert.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React from 'react';
+import { DEFAULT_FIT_COLOR, FIT_MODES } from '../lib/fit';
+import { isVideoUrl } from '../lib/media';
+import type { Announcement, FitMode } from '../types';
+
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import ScaledPreview from './ScaledPreview';
+import Slide from './Slide';
+
+const noop = () => {};
+
+export interface FitValue {
+  mode: FitMode;
+  color: string;
+  focalX: number;
+  focalY: number;
+}
+
+export function getFitValue(item: Announcement): FitValue {
+  return {
+    mode: item.fit_mode || 'contain',
+    color: item.fit_color || DEFAULT_FIT_COLOR,
+    focalX: item.focal_x ?? 50,
+    focalY: item.focal_y ?? 50,
+  };
+}
+
+interface FitPickerProps {
+  item: Announcement;
+  value: FitValue;
+  onChange: (value: FitValue) => void;
+  idPrefix: string;
+}
+
+// Fit mode and focal point for one item, with the whole picture to click the focal point on
+// and a preview of the result on a 16:9 screen
+export default function FitPicker({ item, value, onChange, idPrefix }: FitPickerProps) {
+  const isVideo = isVideoUrl(item.image_url);
+  const modes = isVideo ? FIT_MODES.filter(m => m.value !== 'blur') : FIT_MODES;
+
+  const pickFocalPoint = (e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (n: number) => Math.round(Math.min(100, Math.max(0, n)));
+
+    onChange({
+      ...value,
+      focalX: clamp(((e.clientX - rect.left) / rect.width) * 100),
+      focalY: clamp(((e.clientY - rect.top) / rect.height) * 100),
+    });
+  };
+
+  const preview: Announcement = {
+    ...item,
+    fit_mode: value.mode,
+    fit_color: value.color,
+    focal_x: value.focalX,
+    focal_y: value.focalY,
+    ken_burns: false,
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor={`${idPrefix}-fit`} className="text-xs">Fit</Label>
+          <select
+            id={`${idPrefix}-fit`}
+            value={value.mode}
+            onChange={(e) => onChange({ ...value, mode: e.target.value as FitMode })}
+            className="h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {modes.map(m => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </div>
+        {value.mode === 'color' && (
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-fit-color`} className="text-xs">Colour</Label>
+            <Input
+              id={`${idPrefix}-fit-color`}
+              type="color"
+              value={value.color}
+              onChange={(e) => onChange({ ...value, color: e.target.value })}
+              className="h-9 w-14 p-1"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className={`grid gap-3 ${value.mode === 'cover' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {value.mode === 'cover' && (
+          <div className="space-y-1">
+            <div className="flex h-28 items-center justify-center rounded-md bg-slate-100">
+              <div className="relative cursor-crosshair" onClick={pickFocalPoint} title="Click the part that must stay in view">
+                {isVideo ? (
+                  <video src={item.image_url ?? undefined} muted preload="metadata" className="block max-h-28 max-w-full" />
+                ) : (
+                  <img src={item.image_url ?? undefined} alt="" className="block max-h-28 max-w-full" />
+                )}
+                <span
+                  className="pointer-events-none absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-[0_0_0_1px_rgba(0,0,0,0.5)]"
+                  style={{ left: `${value.focalX}%`, top: `${value.focalY}%` }}
+                />
+              </div>
+            </div>
+            <p className="text-[0.8rem] text-slate-500">Click the part that must stay in view.</p>
+          </div>
+        )}
+        <div className="space-y-1">
+          <ScaledPreview>
+            <div className="relative flex h-full w-full items-center justify-center overflow-hidden bg-black">
+              <Slide item={preview} isActive onReady={noop} onEnded={noop} />
+            </div>
+          </ScaledPreview>
+          <p className="text-[0.8rem] text-slate-500">On a 16:9 screen</p>
+        </div>
+      </div>
+    </div>
+  );
+}
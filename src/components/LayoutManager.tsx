@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { LAYOUT_TEMPLATES, MAIN_ZONE_KEY, clampZone, getZoneStyle } from '../lib/layouts';
+import type { Layout, LayoutZone, Screen } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, Loader2, LayoutDashboard, Pencil, Check, X } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+
+const ZONE_COLORS = ['bg-blue-500/40', 'bg-amber-500/40', 'bg-emerald-500/40', 'bg-rose-500/40', 'bg-violet-500/40'];
+
+interface LayoutPreviewProps {
+  zones: LayoutZone[];
+  captions?: Record<string, string>; // Extra line per zone key, e.g. what the zone plays
+}
+
+// Scaled-down 16:9 screen showing where each zone sits
+export function LayoutPreview({ zones, captions = {} }: LayoutPreviewProps) {
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-md bg-slate-900">
+      {zones.map((zone, index) => (
+        <div
+          key={zone.key}
+          className={`absolute flex flex-col items-center justify-center overflow-hidden border border-white/60 p-0.5 text-center ${ZONE_COLORS[index % ZONE_COLORS.length]}`}
+          style={getZoneStyle(zone)}
+        >
+          <span className="truncate text-[10px] font-medium text-white">{zone.name}</span>
+          {captions[zone.key] && (
+            <span className="w-full truncate text-[9px] text-white/70">{captions[zone.key]}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const ZONE_FIELDS: { field: 'x' | 'y' | 'width' | 'height'; label: string }[] = [
+  { field: 'x', label: 'Left %' },
+  { field: 'y', label: 'Top %' },
+  { field: 'width', label: 'Width %' },
+  { field: 'height', label: 'Height %' },
+];
+
+function LayoutCard({ layout, screens, onChange }: { layout: Layout; screens: Screen[]; onChange: () => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(layout.name);
+  const [zones, setZones] = useState(layout.zones);
+  const [saving, setSaving] = useState(false);
+
+  const usedBy = screens.filter(screen => screen.layout_id === layout.id);
+
+  const startEditing = () => {
+    setName(layout.name);
+    setZones(layout.zones);
+    setIsEditing(true);
+  };
+
+  const updateZone = (key: string, patch: Partial<LayoutZone>) => {
+    setZones(prev => prev.map(zone => (zone.key === key ? { ...zone, ...patch } : zone)));
+  };
+
+  const save = async () => {
+    if (!name.trim()) {
+      toast.error('Layout name is required');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('layouts')
+      .update({ name: name.trim(), zones: zones.map(clampZone) })
+      .eq('id', layout.id);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save layout');
+    } else {
+      toast.success('Layout saved');
+      setIsEditing(false);
+      onChange();
+    }
+  };
+
+  const deleteLayout = async () => {
+    const { error } = await supabase
+      .from('layouts')
+      .delete()
+      .eq('id', layout.id);
+
+    if (error) {
+      toast.error('Failed to delete layout');
+    } else {
+      toast.success(`Layout "${layout.name}" deleted`);
+      onChange();
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-2 shadow-sm">
+      <div className="flex items-center gap-2">
+        <LayoutDashboard className="h-4 w-4 shrink-0 text-slate-400" />
+        <div className="min-w-0 flex-1">
+          {isEditing ? (
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-7 text-sm" />
+          ) : (
+            <>
+              <p className="truncate text-sm font-medium text-slate-900">{layout.name}</p>
+              <p className="truncate text-xs text-slate-500">
+                {usedBy.length > 0 ? `Used by ${usedBy.map(screen => screen.name).join(', ')}` : 'Not used by any screen'}
+              </p>
+            </>
+          )}
+        </div>
+        {isEditing ? (
+          <>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-green-600 hover:text-green-700 hover:bg-green-50" onClick={save} disabled={saving}>
+              {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500" onClick={() => setIsEditing(false)}>
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500" onClick={startEditing} title="Edit zones">
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500 hover:text-red-600 hover:bg-red-50">
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{layout.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Screens using this layout go back to a single full-screen area. Their content is kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={deleteLayout} className="bg-red-600 hover:bg-red-700">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </div>
+
+      <LayoutPreview zones={isEditing ? zones.map(clampZone) : layout.zones} />
+
+      {isEditing && (
+        <div className="space-y-2">
+          {zones.map(zone => (
+            <div key={zone.key} className="space-y-1 rounded-md bg-slate-50 p-2">
+              <Input
+                value={zone.name}
+                onChange={(e) => updateZone(zone.key, { name: e.target.value })}
+                className="h-7 text-xs font-medium"
+                title={zone.key === MAIN_ZONE_KEY ? "Plays the screen's own content" : 'Plays the playlist chosen per screen'}
+              />
+              <div className="grid grid-cols-4 gap-1">
+                {ZONE_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-0.5">
+                    <Label className="text-[10px] text-slate-500">{label}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={zone[field]}
+                      onChange={(e) => updateZone(zone.key, { [field]: Number(e.target.value) })}
+                      className="h-7 px-1.5 text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LayoutManagerProps {
+  layouts: Layout[];
+  screens: Screen[];
+  onChange: () => void;
+}
+
+export default function LayoutManager({ layouts, screens, onChange }: LayoutManagerProps) {
+  const [name, setName] = useState('');
+  const [templateIndex, setTemplateIndex] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const template = LAYOUT_TEMPLATES[templateIndex];
+
+  const addLayout = async () => {
+    const layoutName = name.trim() || template.name;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('layouts')
+        .insert([{ name: layoutName, zones: template.zones }]);
+
+      if (error) throw error;
+
+      toast.success(`Layout "${layoutName}" added`);
+      setName('');
+      onChange();
+    } catch (error) {
+      console.error('Error adding layout:', error);
+      toast.error('Failed to add layout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {layouts.map(layout => (
+          <LayoutCard key={layout.id} layout={layout} screens={screens} onChange={onChange} />
+        ))}
+
+        {layouts.length === 0 && (
+          <div className="flex h-20 items-center justify-center rounded-lg border border-dashed px-4 text-center text-xs text-slate-400">
+            No layouts yet. Screens without a layout show one full-screen area.
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-md border p-4 bg-white">
+        <div className="space-y-1.5">
+          <Label htmlFor="layoutTemplate" className="text-xs">Template</Label>
+          <select
+            id="layoutTemplate"
+            value={templateIndex}
+            onChange={(e) => setTemplateIndex(Number(e.target.value))}
+            className="h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {LAYOUT_TEMPLATES.map((t, index) => (
+              <option key={t.name} value={index}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+        <LayoutPreview zones={template.zones} />
+        <div className="space-y-1.5">
+          <Label htmlFor="layoutName" className="text-xs">Layout Name</Label>
+          <Input
+            id="layoutName"
+            placeholder={template.name}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addLayout();
+            }}
+          />
+        </div>
+        <Button className="w-full" variant="secondary" onClick={addLayout} disabled={saving}>
+          {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Add Layout
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ORIENTATION_TARGETS, fitsOrientation } from '../lib/orientation';
+import type { Announcement, ScreenOrientation } from '../types';
+import { X } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import ScaledPreview from './ScaledPreview';
+import Slide from './Slide';
+
+const FRAMES: { orientation: ScreenOrientation; label: string; width: number; height: number }[] = [
+  { orientation: 'landscape', label: 'Landscape screen', width: 1920, height: 1080 },
+  { orientation: 'portrait', label: 'Portrait screen', width: 1080, height: 1920 },
+];
+
+const noop = () => {};
+
+interface OrientationPreviewProps {
+  item: Announcement;
+  onClose: () => void;
+}
+
+// Shows an item on a landscape and a portrait screen side by side, exactly as the display renders it
+export default function OrientationPreview({ item, onClose }: OrientationPreviewProps) {
+  const target = ORIENTATION_TARGETS.find(t => t.value === (item.orientation || 'any'))?.label;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="truncate">How "{item.title}" fits</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Column widths in 16:9 proportion give both screens the same scale */}
+          <div className="grid grid-cols-[16fr_9fr] items-start gap-4">
+            {FRAMES.map(frame => {
+              const plays = fitsOrientation(item, frame.orientation);
+
+              return (
+                <div key={frame.orientation} className="space-y-1.5">
+                  <ScaledPreview width={frame.width} height={frame.height}>
+                    <div className={`flex h-full w-full items-center justify-center overflow-hidden bg-black ${plays ? '' : 'opacity-30'}`}>
+                      <Slide item={item} isActive onReady={noop} onEnded={noop} />
+                    </div>
+                  </ScaledPreview>
+                  <p className="text-center text-xs text-slate-500">
+                    {frame.label}
+                    {!plays && <span className="block text-red-600">Not played here</span>}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[0.8rem] text-slate-500">
+            Plays on: {target}. Black bars show where the item doesn't fill the screen.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { pairDisplay, revokePairedDisplay, setPairedDisplayScreen } from '../lib/pairing';
+import { sendDeviceCommand } from '../lib/commands';
+import type { PairedDisplay, Screen } from '../types';
+import toast from 'react-hot-toast';
+import { Link2, Loader2, Ban, Trash2 } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+
+const SELECT_CLASS = 'h-7 w-full rounded-md border border-slate-200 bg-white px-1.5 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+const CODE_LENGTH = 6;
+
+// A running TV only re-checks its pairing when it loads, so nudge it. It may well be offline; that's fine.
+function reloadDevice(display: PairedDisplay) {
+  if (!display.device_id) return;
+  sendDeviceCommand(display.device_id, 'reload').catch(() => {});
+}
+
+interface PairedDisplaysProps {
+  screens: Screen[];
+}
+
+// Registers TVs by the code they show on screen, and manages (revokes) their tokens
+export default function PairedDisplays({ screens }: PairedDisplaysProps) {
+  const [displays, setDisplays] = useState<PairedDisplay[]>([]);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [screenId, setScreenId] = useState('');
+  const [pairing, setPairing] = useState(false);
+
+  const fetchDisplays = async () => {
+    const { data, error } = await supabase
+      .from('paired_displays')
+      .select('id, name, screen_id, device_id, last_used_at, revoked_at, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading paired displays:', error);
+    } else {
+      setDisplays(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchDisplays();
+  }, []);
+
+  const handlePair = async () => {
+    const cleanCode = code.trim().toUpperCase();
+    if (cleanCode.length !== CODE_LENGTH || !name.trim()) {
+      toast.error('Enter the 6-character code shown on the TV and a name');
+      return;
+    }
+
+    setPairing(true);
+    try {
+      const paired = await pairDisplay(cleanCode, name.trim(), screenId || null);
+      if (!paired) {
+        toast.error('No TV is showing that code, or it has expired');
+        return;
+      }
+
+      toast.success(`"${name.trim()}" paired, it will start playing in a few seconds`);
+      setCode('');
+      setName('');
+      setScreenId('');
+      fetchDisplays();
+    } catch (error) {
+      console.error('Error pairing display:', error);
+      toast.error('Failed to pair display');
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  const setScreen = async (display: PairedDisplay, nextScreenId: string | null) => {
+    try {
+      await setPairedDisplayScreen(display.id, nextScreenId);
+      const screen = screens.find(s => s.id === nextScreenId);
+      toast.success(`${display.name} now plays ${screen ? `"${screen.name}"` : 'the default display'}`);
+      reloadDevice(display);
+      fetchDisplays();
+    } catch (error) {
+      console.error('Error updating paired display:', error);
+      toast.error('Failed to update display');
+    }
+  };
+
+  const revoke = async (display: PairedDisplay) => {
+    try {
+      await revokePairedDisplay(display.id);
+      toast.success(`${display.name} has been unpaired`);
+      reloadDevice(display);
+      fetchDisplays();
+    } catch (error) {
+      console.error('Error revoking paired display:', error);
+      toast.error('Failed to revoke display');
+    }
+  };
+
+  const remove = async (display: PairedDisplay) => {
+    const { error } = await supabase
+      .from('paired_displays')
+      .delete()
+      .eq('id', display.id);
+
+    if (error) {
+      toast.error('Failed to remove display');
+    } else {
+      fetchDisplays();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-slate-500" />
+        <h3 className="text-sm font-medium">Paired Displays</h3>
+      </div>
+
+      {displays.map(display => {
+        const revoked = !!display.revoked_at;
+
+        return (
+          <div key={display.id} className={`flex items-center gap-2 rounded-md border bg-white p-2 shadow-sm ${revoked ? 'opacity-60' : ''}`}>
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="truncate text-sm font-medium text-slate-900">
+                {display.name}
+                {revoked && <span className="ml-1.5 text-xs font-normal text-red-600">Revoked</span>}
+              </p>
+              <p className="text-xs text-slate-500">
+                Paired {new Date(display.created_at).toLocaleDateString()}
+                {display.last_used_at && `, last started ${new Date(display.last_used_at).toLocaleString()}`}
+              </p>
+              {!revoked && (
+                <select
+                  value={display.screen_id ?? ''}
+                  onChange={(e) => setScreen(display, e.target.value || null)}
+                  className={SELECT_CLASS}
+                  title="What this TV plays"
+                >
+                  <option value="">Default display</option>
+                  {screens.map(screen => (
+                    <option key={screen.id} value={screen.id}>Screen: {screen.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {revoked ? (
+              <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500 hover:text-red-600 hover:bg-red-50" onClick={() => remove(display)} title="Remove from the list">
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            ) : (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500 hover:text-red-600 hover:bg-red-50" title="Revoke">
+                    <Ban className="h-3.5 w-3.5" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Revoke "{display.name}"?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Its token stops working. The next time the TV loads (right away if it is online) it forgets its screen and, if the board is password protected, asks to be paired again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => revoke(display)} className="bg-red-600 hover:bg-red-700">
+                      Revoke
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="space-y-3 rounded-md border p-4 bg-white">
+        <p className="text-xs text-slate-500">
+          Open the display page on the new TV. When it shows a pairing code (or open <span className="font-mono">/?pair</span> to make it show one), enter it here.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="pairingCode" className="text-xs">Pairing Code</Label>
+            <Input
+              id="pairingCode"
+              placeholder="ABC234"
+              maxLength={CODE_LENGTH}
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              className="font-mono tracking-widest"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="pairingName" className="text-xs">Display Name</Label>
+            <Input
+              id="pairingName"
+              placeholder="e.g. Lobby TV"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handlePair();
+              }}
+            />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="pairingScreen" className="text-xs">Plays</Label>
+          <select
+            id="pairingScreen"
+            value={screenId}
+            onChange={(e) => setScreenId(e.target.value)}
+            className="flex h-9 w-full rounded-md border border-slate-200 bg-white px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">Default display</option>
+            {screens.map(screen => (
+              <option key={screen.id} value={screen.id}>Screen: {screen.name}</option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={handlePair} disabled={pairing} className="w-full">
+          {pairing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+          Pair Display
+        </Button>
+      </div>
+    </div>
+  );
+}
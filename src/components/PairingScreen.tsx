@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { getDeviceId } from '../lib/heartbeat';
+import { PAIRING_POLL_MS, claimDisplayToken, rememberPairing, requestPairingCode, type PairingCode } from '../lib/pairing';
+import { Loader2, MonitorSmartphone } from 'lucide-react';
+
+interface PairingScreenProps {
+  onPaired: () => void;
+  onUsePassword?: () => void; // Offered when the display could also be unlocked with the password
+}
+
+// Shown by an unpaired TV: a short code that an admin enters in the settings to register it
+export default function PairingScreen({ onPaired, onUsePassword }: PairingScreenProps) {
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+  const [offline, setOffline] = useState(false);
+
+  useEffect(() => {
+    const deviceId = getDeviceId();
+    let current: PairingCode | null = null;
+    let stopped = false;
+    let busy = false;
+
+    const check = async () => {
+      // On a slow connection the next poll can come round before this one has finished
+      if (busy) return;
+      busy = true;
+
+      try {
+        // Always check the code on screen first: an admin may have entered it in its last seconds
+        if (current) {
+          const claimed = await claimDisplayToken(deviceId, current.code);
+          setOffline(false);
+
+          if (claimed) {
+            if (!stopped) {
+              rememberPairing(claimed.token, claimed.screen_slug);
+              onPaired();
+            }
+            return;
+          }
+        }
+
+        // Codes expire after a while; show a new one rather than one that no longer works
+        if (!current || new Date(current.expires_at).getTime() <= Date.now()) {
+          current = await requestPairingCode(deviceId);
+          setOffline(false);
+          if (!stopped) setPairing(current);
+        }
+      } catch (error) {
+        console.error('Pairing Error:', error);
+        if (!stopped) setOffline(true);
+      } finally {
+        busy = false;
+      }
+    };
+
+    check();
+    const poll = setInterval(check, PAIRING_POLL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(poll);
+    };
+  }, []);
+
+  return (
+    <div className="flex h-screen w-full flex-col items-center justify-center gap-[4vh] bg-black p-[4vh] text-center text-white">
+      <MonitorSmartphone className="h-[10vh] w-[10vh] text-white/40" />
+      <div className="space-y-[1.5vh]">
+        <h1 className="text-[5vh] font-semibold">Pair this display</h1>
+        <p className="text-[2.5vh] text-white/60">
+          On a computer, open <span className="text-white">{window.location.origin}/settings</span>, go to
+          <span className="text-white"> Screens → Paired Displays</span> and enter this code:
+        </p>
+      </div>
+
+      {pairing ? (
+        <p className="rounded-xl bg-white/10 px-[4vh] py-[2vh] font-mono text-[14vh] font-bold tracking-[0.2em]">
+          {pairing.code}
+        </p>
+      ) : (
+        <Loader2 className="h-[8vh] w-[8vh] animate-spin text-white/50" />
+      )}
+
+      <p className="text-[2vh] text-white/40">
+        {offline
+          ? 'Cannot reach the server. Check the network connection, retrying...'
+          : pairing && `The code is valid until ${new Date(pairing.expires_at).toLocaleTimeString()}; a new one will appear after that.`}
+      </p>
+
+      {onUsePassword && (
+        <button
+          type="button"
+          onClick={onUsePassword}
+          className="text-[1.8vh] text-white/40 underline-offset-4 hover:text-white/70 hover:underline"
+        >
+          Use the access password instead
+        </button>
+      )}
+    </div>
+  );
+}
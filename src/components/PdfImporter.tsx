@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { supabase } from '../lib/supabase';
+import { PDF_SLIDE_EDGE, loadPdf, renderPdfPage } from '../lib/pdf';
+import { describeError } from '../lib/utils';
+import { removeFromStorage, uploadToStorage } from '../lib/storage';
+import { DEFAULT_TRANSITION_MS } from '../lib/transitions';
+import type { TransitionType } from '../types';
+import toast from 'react-hot-toast';
+import { X, Loader2, Check, FileText } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import TransitionPicker, { type TransitionValue } from './TransitionPicker';
+
+// Page previews only need to be recognisable
+const THUMBNAIL_EDGE = 240;
+
+interface PdfImporterProps {
+  file: File;
+  defaultDuration: number;
+  defaultTransition: TransitionType;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Renders a PDF in the browser and turns the chosen pages into one group of image slides
+export default function PdfImporter({ file, defaultDuration, defaultTransition, onClose, onSaved }: PdfImporterProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [title, setTitle] = useState(file.name.replace(/\.pdf$/i, ''));
+  const [duration, setDuration] = useState(defaultDuration);
+  const [transition, setTransition] = useState<TransitionValue>({ type: defaultTransition, durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
+  const [progress, setProgress] = useState<number | null>(null); // Pages uploaded so far while importing
+
+  const pageCount = pdf?.numPages ?? 0;
+  const importing = progress !== null;
+
+  // Open the document, then render the previews one page at a time
+  useEffect(() => {
+    let cancelled = false;
+    let doc: PDFDocumentProxy | null = null;
+    const urls: string[] = [];
+
+    (async () => {
+      try {
+        doc = await loadPdf(file);
+        if (cancelled) return;
+        setPdf(doc);
+        setSelected(new Set(Array.from({ length: doc.numPages }, (_, i) => i + 1)));
+
+        for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+          const blob = await renderPdfPage(doc, pageNumber, THUMBNAIL_EDGE);
+          if (cancelled) return;
+          urls.push(URL.createObjectURL(blob));
+          setThumbnails([...urls]);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error(error);
+        toast.error('Could not read this PDF');
+        onClose();
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+      doc?.destroy();
+    };
+  }, [file]);
+
+  const togglePage = (pageNumber: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(pageNumber)) next.delete(pageNumber);
+      else next.add(pageNumber);
+      return next;
+    });
+  };
+
+  const importPages = async () => {
+    if (!pdf || selected.size === 0) return;
+
+    const pages = Array.from(selected).sort((a, b) => a - b);
+    const groupId = crypto.randomUUID();
+    const groupTitle = title.trim() || file.name;
+    const uploadedUrls: string[] = [];
+
+    setProgress(0);
+    try {
+      // 1. Render each page at display resolution and upload it
+      for (const pageNumber of pages) {
+        const blob = await renderPdfPage(pdf, pageNumber, PDF_SLIDE_EDGE);
+        uploadedUrls.push(await uploadToStorage(new File([blob], `page-${pageNumber}.jpg`, { type: 'image/jpeg' })));
+        setProgress(uploadedUrls.length);
+      }
+
+      // 2. Save the pages as one group
+      const { error } = await supabase
+        .from('announcements')
+        .insert(pages.map((pageNumber, i) => ({
+          image_url: uploadedUrls[i],
+          title: `${groupTitle} (page ${pageNumber})`,
+          group_id: groupId,
+          group_title: groupTitle,
+          page_number: pageNumber,
+          display_duration: duration,
+          transition_type: transition.type,
+          transition_duration: transition.durationMs,
+          ken_burns: transition.kenBurns,
+          active: true,
+        })));
+
+      if (error) throw error;
+
+      toast.success(`Imported ${pages.length} page${pages.length === 1 ? '' : 's'} from "${groupTitle}"`);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error(error);
+      toast.error(describeError(error));
+      await removeFromStorage(uploadedUrls);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Import PDF
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={importing}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-600">
+              {pdf ? `${selected.size} of ${pageCount} pages selected` : 'Reading PDF...'}
+            </span>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={!pdf || importing} onClick={() => setSelected(new Set(Array.from({ length: pageCount }, (_, i) => i + 1)))}>
+                Select all
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={!pdf || importing} onClick={() => setSelected(new Set())}>
+                Select none
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid max-h-80 grid-cols-3 gap-3 overflow-y-auto rounded-md border bg-slate-50 p-3 sm:grid-cols-5">
+            {Array.from({ length: pageCount }, (_, i) => i + 1).map(pageNumber => {
+              const isSelected = selected.has(pageNumber);
+              const thumbnail = thumbnails[pageNumber - 1];
+
+              return (
+                <button
+                  key={pageNumber}
+                  type="button"
+                  disabled={importing}
+                  onClick={() => togglePage(pageNumber)}
+                  className={`relative flex aspect-square flex-col items-center justify-center gap-1 rounded-md border-2 bg-white p-1 transition-colors ${
+                    isSelected ? 'border-blue-500' : 'border-transparent opacity-50 hover:opacity-80'
+                  }`}
+                  title={`Page ${pageNumber}`}
+                >
+                  {thumbnail ? (
+                    <img src={thumbnail} alt={`Page ${pageNumber}`} className="min-h-0 flex-1 object-contain shadow-sm" />
+                  ) : (
+                    <Loader2 className="h-5 w-5 flex-1 animate-spin text-slate-300" />
+                  )}
+                  <span className="text-[10px] text-slate-500">{pageNumber}</span>
+                  {isSelected && (
+                    <span className="absolute right-1 top-1 flex h-5 w-5 items-center justify-center rounded-full bg-blue-500 text-white">
+                      <Check className="h-3 w-3" />
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="grid gap-4 text-sm">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="pdfTitle">Title</Label>
+                <Input
+                  id="pdfTitle"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pdfDuration">Duration per Page (seconds)</Label>
+                <Input
+                  id="pdfDuration"
+                  type="number"
+                  min="1"
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                />
+              </div>
+            </div>
+            <TransitionPicker value={transition} onChange={setTransition} showKenBurns idPrefix="pdf" />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={onClose} disabled={importing}>
+              Cancel
+            </Button>
+            <Button onClick={importPages} disabled={!pdf || importing || selected.size === 0} className="bg-blue-600 hover:bg-blue-700">
+              {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {importing ? `Importing ${progress} of ${selected.size}...` : `Import ${selected.size} Page${selected.size === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { downloadCsv, toCsv } from '../lib/csv';
+import type { PlayLog, PlayStats } from '../types';
+import toast from 'react-hot-toast';
+import { Loader2, Download, RefreshCw } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+const DEFAULT_RANGE_DAYS = 7;
+// Raw logs are fetched in pages of this size (the API caps single responses)
+const RAW_PAGE_SIZE = 1000;
+
+// Local calendar date as used by <input type="date">
+function toDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// "From" day at local midnight up to the end of the "to" day
+function getRange(from: string, to: string) {
+  const start = new Date(`${from}T00:00`);
+  const end = new Date(`${to}T00:00`);
+  end.setDate(end.getDate() + 1);
+  return { range_start: start.toISOString(), range_end: end.toISOString() };
+}
+
+// "2h 05m" / "4m 10s" / "12s"
+function formatScreenTime(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+}
+
+// Proof-of-play report: how often, and for how long, each announcement was on screen
+export default function PlayAnalytics() {
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - (DEFAULT_RANGE_DAYS - 1));
+    return toDateInput(date);
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [stats, setStats] = useState<PlayStats[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const validRange = !!from && !!to && from <= to;
+
+  const fetchStats = async () => {
+    if (!validRange) return;
+
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_play_stats', getRange(from, to));
+    setLoading(false);
+
+    if (error) {
+      console.error('Error loading play stats:', error);
+      toast.error('Failed to load play statistics');
+    } else {
+      setStats(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchStats();
+  }, [from, to]);
+
+  const exportSummary = () => {
+    const csv = toCsv(
+      ['Announcement', 'Announcement ID', 'Plays', 'Skipped', 'Errors', 'Screen time (seconds)', 'Screens', 'Last played'],
+      stats.map(row => [
+        row.title ?? 'Deleted announcement',
+        row.announcement_id,
+        row.plays,
+        row.skipped,
+        row.errors,
+        Math.round(row.total_ms / 1000),
+        row.screens,
+        row.last_played_at,
+      ])
+    );
+    downloadCsv(`play-summary-${from}-to-${to}.csv`, csv);
+  };
+
+  const exportRawLog = async () => {
+    setExporting(true);
+    try {
+      const { range_start, range_end } = getRange(from, to);
+      const logs: PlayLog[] = [];
+
+      for (let offset = 0; ; offset += RAW_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('play_logs')
+          .select('*')
+          .gte('started_at', range_start)
+          .lt('started_at', range_end)
+          .order('started_at', { ascending: true })
+          .range(offset, offset + RAW_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        logs.push(...(data || []));
+        if (!data || data.length < RAW_PAGE_SIZE) break;
+      }
+
+      const csv = toCsv(
+        ['Started at', 'Announcement', 'Announcement ID', 'Screen', 'Zone', 'Seconds shown', 'Outcome'],
+        logs.map(log => [
+          log.started_at,
+          log.announcement_title,
+          log.announcement_id,
+          log.screen_slug ?? '(default)',
+          log.zone_key,
+          (log.duration_ms / 1000).toFixed(1),
+          log.outcome,
+        ])
+      );
+      downloadCsv(`play-log-${from}-to-${to}.csv`, csv);
+    } catch (error) {
+      console.error('Error exporting play log:', error);
+      toast.error('Failed to export the play log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPlays = stats.reduce((sum, row) => sum + row.plays, 0);
+  const totalMs = stats.reduce((sum, row) => sum + row.total_ms, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor="statsFrom">From</Label>
+          <Input id="statsFrom" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor="statsTo">To</Label>
+          <Input id="statsTo" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <Button variant="outline" size="icon" className="shrink-0" onClick={fetchStats} disabled={loading || !validRange} title="Refresh">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {!validRange && (
+        <p className="text-[0.8rem] text-red-600">The start date must be on or before the end date.</p>
+      )}
+
+      <div className="rounded-md border">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 border-b bg-slate-50 px-3 py-2 text-xs font-medium text-slate-500">
+          <span>Announcement</span>
+          <span className="w-12 text-right">Plays</span>
+          <span className="w-16 text-right">On screen</span>
+        </div>
+
+        {stats.map(row => (
+          <div key={row.announcement_id} className="grid grid-cols-[1fr_auto_auto] gap-x-4 border-b px-3 py-2 text-sm last:border-b-0">
+            <div className="min-w-0">
+              <p className={`truncate ${row.title ? 'text-slate-900' : 'italic text-slate-400'}`}>
+                {row.title ?? 'Deleted announcement'}
+              </p>
+              {(row.skipped > 0 || row.errors > 0) && (
+                <p className="text-xs text-slate-500">
+                  {[
+                    row.skipped > 0 && `${row.skipped} skipped`,
+                    row.errors > 0 && `${row.errors} failed`,
+                  ].filter(Boolean).join(', ')}
+                </p>
+              )}
+            </div>
+            <span className="w-12 text-right tabular-nums">{row.plays}</span>
+            <span className="w-16 text-right tabular-nums">{formatScreenTime(row.total_ms)}</span>
+          </div>
+        ))}
+
+        {stats.length === 0 && (
+          <p className="px-3 py-6 text-center text-sm text-slate-400">
+            {loading ? 'Loading...' : 'Nothing was played in this period.'}
+          </p>
+        )}
+
+        {stats.length > 0 && (
+          <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 border-t bg-slate-50 px-3 py-2 text-sm font-medium">
+            <span>Total</span>
+            <span className="w-12 text-right tabular-nums">{totalPlays}</span>
+            <span className="w-16 text-right tabular-nums">{formatScreenTime(totalMs)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={exportSummary} disabled={stats.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Summary CSV
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={exportRawLog} disabled={exporting || !validRange}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Full Log CSV
+        </Button>
+      </div>
+
+      <p className="text-[0.8rem] text-slate-500">
+        Displays upload their play logs about once a minute; offline displays catch up when they reconnect.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Playlist, Screen } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, Check, X, Tv, ListVideo } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+
+interface PlaylistPickerProps {
+  playlists: Playlist[];
+  screens: Screen[];
+  selectedPlaylistId: string | null;
+  onSelect: (playlistId: string | null) => void;
+  onChange: () => void;
+}
+
+export default function PlaylistPicker({ playlists, screens, selectedPlaylistId, onSelect, onChange }: PlaylistPickerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId);
+
+  const createPlaylist = async () => {
+    if (!newName.trim()) return;
+
+    const { data, error } = await supabase
+      .from('playlists')
+      .insert([{ name: newName.trim() }])
+      .select()
+      .single();
+
+    if (error) {
+      toast.error('Failed to create playlist');
+      return;
+    }
+
+    toast.success(`Playlist "${data.name}" created`);
+    setNewName('');
+    setIsCreating(false);
+    onChange();
+    onSelect(data.id);
+  };
+
+  const deletePlaylist = async (playlist: Playlist) => {
+    const { error } = await supabase
+      .from('playlists')
+      .delete()
+      .eq('id', playlist.id);
+
+    if (error) {
+      toast.error('Failed to delete playlist');
+    } else {
+      toast.success(`Playlist "${playlist.name}" deleted`);
+      onSelect(null);
+      onChange();
+    }
+  };
+
+  // Attaching a playlist to a screen replaces whatever that screen was playing
+  const toggleScreen = async (screen: Screen) => {
+    if (!selectedPlaylist) return;
+    const isAttached = screen.playlist_id === selectedPlaylist.id;
+
+    const { error } = await supabase
+      .from('screens')
+      .update({ playlist_id: isAttached ? null : selectedPlaylist.id })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      toast.success(isAttached
+        ? `${screen.name} no longer plays "${selectedPlaylist.name}"`
+        : `${screen.name} now plays "${selectedPlaylist.name}"`);
+      onChange();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <ListVideo className="h-4 w-4 shrink-0 text-slate-400" />
+        {isCreating ? (
+          <>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Open day"
+              className="h-8 text-sm"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') createPlaylist();
+                if (e.key === 'Escape') setIsCreating(false);
+              }}
+            />
+            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0 text-green-600" onClick={createPlaylist}>
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0 text-slate-400" onClick={() => setIsCreating(false)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <select
+              value={selectedPlaylistId ?? ''}
+              onChange={(e) => onSelect(e.target.value || null)}
+              className="h-8 w-full rounded-md border border-slate-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <option value="">All content (global order)</option>
+              {playlists.map(playlist => (
+                <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+              ))}
+            </select>
+            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0 text-slate-500" onClick={() => setIsCreating(true)} title="New playlist">
+              <Plus className="h-4 w-4" />
+            </Button>
+            {selectedPlaylist && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0 text-slate-500 hover:text-red-600 hover:bg-red-50" title="Delete playlist">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete "{selectedPlaylist.name}"?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The playlist is removed from any screens using it. The announcements themselves are kept.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deletePlaylist(selectedPlaylist)} className="bg-red-600 hover:bg-red-700">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </>
+        )}
+      </div>
+
+      {selectedPlaylist && screens.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500">
+          <Tv className="h-3 w-3 text-slate-400" />
+          <span className="mr-1">Playing on:</span>
+          {screens.map(screen => {
+            const isAttached = screen.playlist_id === selectedPlaylist.id;
+            return (
+              <button
+                key={screen.id}
+                type="button"
+                onClick={() => toggleScreen(screen)}
+                className={`rounded-full border px-2 py-px text-[10px] font-medium transition-colors ${
+                  isAttached
+                    ? 'border-blue-600 bg-blue-600 text-white'
+                    : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400'
+                }`}
+                title={isAttached ? `Stop playing on ${screen.name}` : `Play on ${screen.name}`}
+              >
+                {screen.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
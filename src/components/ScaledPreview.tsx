@@ -0,0 +1,36 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+
+interface ScaledPreviewProps {
+  children: React.ReactNode;
+  width?: number; // Virtual size the content is laid out at, e.g. a TV resolution
+  height?: number;
+  className?: string;
+}
+
+// Renders its content at a real screen size and scales it down to fit, so previews match the TV
+export default function ScaledPreview({ children, width = 1920, height = 1080, className = 'w-full' }: ScaledPreviewProps) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [factor, setFactor] = useState(0);
+
+  useLayoutEffect(() => {
+    const box = boxRef.current;
+    if (!box) return;
+
+    const measure = () => setFactor(box.clientWidth / width);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, [width]);
+
+  return (
+    <div ref={boxRef} className={`relative overflow-hidden rounded-md border bg-slate-100 ${className}`} style={{ aspectRatio: `${width} / ${height}` }}>
+      <div
+        className="absolute left-0 top-0"
+        style={{ width, height, transform: `scale(${factor})`, transformOrigin: 'top left' }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
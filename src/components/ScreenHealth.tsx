@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { APP_VERSION, OFFLINE_AFTER_MS } from '../lib/heartbeat';
+import { COMMAND_LABELS, sendDeviceCommand, waitForAcknowledgement } from '../lib/commands';
+import type { Announcement, DeviceCommand, DeviceCommandType, DisplayDevice, Screen } from '../types';
+import toast from 'react-hot-toast';
+import {
+  Activity, ChevronDown, ChevronUp, Loader2, RefreshCw, Trash2,
+  ScanEye, SkipBack, SkipForward, Pause, Play, Monitor, MonitorOff, RotateCw,
+} from 'lucide-react';
+
+import { Button } from './ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+
+// The dashboard refreshes itself so "last seen" stays meaningful while it is open
+const REFRESH_MS = 30 * 1000;
+
+// "just now" / "5 min ago" / "3 h ago" / "2 days ago"
+function formatLastSeen(iso: string | null, now: number): string {
+  if (!iso) return 'never';
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+}
+
+function isOnline(device: DisplayDevice, now: number): boolean {
+  return !!device.last_seen_at && now - new Date(device.last_seen_at).getTime() < OFFLINE_AFTER_MS;
+}
+
+const SELECT_CLASS = 'h-7 min-w-0 flex-1 rounded-md border border-slate-200 bg-white px-1.5 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+interface ScreenHealthProps {
+  screens: Screen[];
+  announcements: Announcement[]; // Offered as "jump to" targets
+}
+
+// Which displays are alive, what they are showing and what has gone wrong on them
+export default function ScreenHealth({ screens, announcements }: ScreenHealthProps) {
+  const [devices, setDevices] = useState<DisplayDevice[]>([]);
+  const [deviceNames, setDeviceNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchDevices = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('display_devices')
+      .select('*')
+      .order('last_seen_at', { ascending: false });
+    setLoading(false);
+    setNow(Date.now());
+
+    if (error) {
+      console.error('Error loading display devices:', error);
+      toast.error('Failed to load screen status');
+    } else {
+      setDevices(data || []);
+    }
+
+    // Paired TVs are listed under the name they were given when pairing
+    const { data: paired } = await supabase
+      .from('paired_displays')
+      .select('device_id, name')
+      .is('revoked_at', null);
+
+    setDeviceNames(Object.fromEntries((paired || []).filter(row => row.device_id).map(row => [row.device_id, row.name])));
+  };
+
+  useEffect(() => {
+    fetchDevices();
+    const timer = setInterval(fetchDevices, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const forgetDevice = async (device: DisplayDevice) => {
+    const { error } = await supabase.from('display_devices').delete().eq('id', device.id);
+
+    if (error) {
+      toast.error('Failed to remove device');
+    } else {
+      toast.success('Device removed');
+      fetchDevices();
+    }
+  };
+
+  const getScreenName = (slug: string | null) => {
+    if (!slug) return 'Default display';
+    return screens.find(screen => screen.slug === slug)?.name ?? `Unknown screen "${slug}"`;
+  };
+
+  // Sends a command and reports the device's answer; the rest of the dashboard stays usable meanwhile
+  const runCommand = async (device: DisplayDevice, command: DeviceCommandType, payload?: DeviceCommand['payload']) => {
+    const name = getScreenName(device.screen_slug);
+    const label = COMMAND_LABELS[command];
+    const toastId = toast.loading(`${label}: waiting for ${name}...`);
+
+    try {
+      const sent = await sendDeviceCommand(device.id, command, payload);
+      const status = await waitForAcknowledgement(sent);
+
+      if (status === 'done') {
+        toast.success(`${label}: done on ${name}`, { id: toastId });
+      } else if (status === 'failed') {
+        toast.error(`${label}: ${name} could not do that right now`, { id: toastId });
+      } else {
+        toast.error(`${label}: ${name} did not respond, the command has expired`, { id: toastId });
+      }
+      fetchDevices();
+    } catch (error) {
+      console.error('Error sending command:', error);
+      toast.error(`Failed to send "${label}"`, { id: toastId });
+    }
+  };
+
+  const onlineCount = devices.filter(device => isOnline(device, now)).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Activity className="h-4 w-4 text-slate-500" />
+        <h3 className="flex-1 text-sm font-medium">
+          Devices
+          {devices.length > 0 && (
+            <span className="ml-2 font-normal text-slate-500">{onlineCount} of {devices.length} online</span>
+          )}
+        </h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={fetchDevices} disabled={loading} title="Refresh">
+          {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+
+      {devices.map(device => {
+        const online = isOnline(device, now);
+        const expanded = expandedId === device.id;
+        const errors = device.recent_errors ?? [];
+
+        return (
+          <div key={device.id} className="space-y-1.5 rounded-md border bg-white p-2 shadow-sm">
+            <div className="flex items-start gap-2">
+              <span
+                className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${online ? 'bg-green-500' : 'bg-red-500'}`}
+                title={online ? 'Online' : 'Offline'}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-slate-900">
+                  {deviceNames[device.id] ?? getScreenName(device.screen_slug)}
+                  {deviceNames[device.id] && (
+                    <span className="ml-1.5 text-xs font-normal text-slate-500">{getScreenName(device.screen_slug)}</span>
+                  )}
+                </p>
+                <p className={`text-xs ${online ? 'text-slate-500' : 'text-red-600'}`}>
+                  {online ? 'Online' : 'Offline'}, last seen {formatLastSeen(device.last_seen_at, now)}
+                  {device.blanked && <span className="ml-1.5 font-medium text-slate-700">· Blanked</span>}
+                  {device.paused && <span className="ml-1.5 font-medium text-slate-700">· Paused</span>}
+                  {device.audio_blocked && (
+                    <span className="ml-1.5 font-medium text-amber-600" title="The browser blocks sound until someone clicks or presses a key on the TV. See Sound in the README for a permanent fix.">
+                      · Sound blocked
+                    </span>
+                  )}
+                </p>
+                <p className="truncate text-xs text-slate-500">
+                  Showing: {device.current_title ?? 'nothing'}
+                </p>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-400 hover:text-red-600" title="Remove device">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove this device?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Use this for displays that have been retired. A device that is still running will reappear with its next heartbeat.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => forgetDevice(device)}>Remove</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+
+            <div className="flex flex-wrap gap-x-3 gap-y-0.5 pl-4 text-[11px] text-slate-400">
+              <span className={device.app_version && device.app_version !== APP_VERSION ? 'text-amber-600' : undefined}>
+                v{device.app_version ?? '?'}
+              </span>
+              {device.resolution && <span>{device.resolution}</span>}
+              <span className={device.wake_lock ? undefined : 'text-amber-600'}>
+                Wake lock {device.wake_lock ? 'on' : 'off'}
+              </span>
+              {device.started_at && <span>Running since {new Date(device.started_at).toLocaleString()}</span>}
+              {device.user_agent && <span className="w-full truncate" title={device.user_agent}>{device.user_agent}</span>}
+            </div>
+
+            <div className="flex items-center gap-1 pl-4">
+              <Button size="icon" variant="outline" className="h-7 w-7" title="Identify (show the screen name)" onClick={() => runCommand(device, 'identify', { label: deviceNames[device.id] ?? getScreenName(device.screen_slug) })}>
+                <ScanEye className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="icon" variant="outline" className="h-7 w-7" title="Previous slide" onClick={() => runCommand(device, 'previous')}>
+                <SkipBack className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                size="icon"
+                variant={device.paused ? 'default' : 'outline'}
+                className="h-7 w-7"
+                title={device.paused ? 'Resume' : 'Pause'}
+                onClick={() => runCommand(device, device.paused ? 'resume' : 'pause')}
+              >
+                {device.paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+              </Button>
+              <Button size="icon" variant="outline" className="h-7 w-7" title="Next slide" onClick={() => runCommand(device, 'next')}>
+                <SkipForward className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                size="icon"
+                variant={device.blanked ? 'default' : 'outline'}
+                className="h-7 w-7"
+                title={device.blanked ? 'Unblank screen' : 'Blank screen'}
+                onClick={() => runCommand(device, device.blanked ? 'unblank' : 'blank')}
+              >
+                {device.blanked ? <Monitor className="h-3.5 w-3.5" /> : <MonitorOff className="h-3.5 w-3.5" />}
+              </Button>
+              <Button size="icon" variant="outline" className="h-7 w-7" title="Reload page" onClick={() => runCommand(device, 'reload')}>
+                <RotateCw className="h-3.5 w-3.5" />
+              </Button>
+              <select
+                value=""
+                onChange={(e) => e.target.value && runCommand(device, 'goto', { announcement_id: e.target.value })}
+                className={SELECT_CLASS}
+                title="Jump to a slide"
+              >
+                <option value="">Jump to...</option>
+                {announcements.filter(item => item.active).map(item => (
+                  <option key={item.id} value={item.id}>{item.title}</option>
+                ))}
+              </select>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="pl-4">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expanded ? null : device.id)}
+                  className={`flex max-w-full items-center gap-1 text-xs hover:underline ${device.last_error ? 'text-red-600' : 'text-slate-400'}`}
+                >
+                  {expanded ? <ChevronUp className="h-3 w-3 shrink-0" /> : <ChevronDown className="h-3 w-3 shrink-0" />}
+                  <span className="truncate">
+                    {device.last_error
+                      ? `${errors.length} recent ${errors.length === 1 ? 'error' : 'errors'}: ${device.last_error}`
+                      : `${errors.length} earlier ${errors.length === 1 ? 'error' : 'errors'}, content has loaded since`}
+                  </span>
+                </button>
+                {expanded && (
+                  <ul className="mt-1 space-y-0.5 rounded bg-slate-50 p-2 text-[11px] text-slate-600">
+                    {errors.map((error, index) => (
+                      <li key={index}>
+                        <span className="text-slate-400">{new Date(error.at).toLocaleString()}</span> {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {devices.length === 0 && (
+        <p className="rounded-md border border-dashed p-4 text-center text-xs text-slate-400">
+          {loading ? 'Loading...' : 'No display has reported in yet. Open the display page on a TV and it will appear here within a minute.'}
+        </p>
+      )}
+    </div>
+  );
+}
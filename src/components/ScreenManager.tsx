@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { slugify, getScreenUrl } from '../lib/screens';
+import { MAIN_ZONE_KEY } from '../lib/layouts';
+import { ROTATIONS } from '../lib/orientation';
+import type { DaypartRule, Layout, Playlist, Screen, ScreenRotation } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, ExternalLink, Copy, Loader2, Tv, Clock } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { LayoutPreview } from './LayoutManager';
+import WidgetEditor from './WidgetEditor';
+import DaypartEditor from './DaypartEditor';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+
+interface ScreenManagerProps {
+  screens: Screen[];
+  playlists: Playlist[];
+  layouts: Layout[];
+  onChange: () => void;
+}
+
+const VOLUME_STEPS = [100, 90, 80, 70, 60, 50, 40, 30, 20, 10, 0];
+// Quiet hours start out as every evening and night
+const DEFAULT_QUIET_HOURS: DaypartRule = { days: [0, 1, 2, 3, 4, 5, 6], ranges: [{ start: '18:00', end: '08:00' }] };
+
+const SELECT_CLASS = 'h-7 w-full rounded-md border border-slate-200 bg-white px-1.5 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+export default function ScreenManager({ screens, playlists, layouts, onChange }: ScreenManagerProps) {
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [widgetScreenId, setWidgetScreenId] = useState<string | null>(null);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugTouched) setSlug(slugify(value));
+  };
+
+  const addScreen = async () => {
+    const cleanSlug = slugify(slug);
+    if (!name.trim() || !cleanSlug) {
+      toast.error('Screen name and URL key are required');
+      return;
+    }
+    if (screens.some(s => s.slug === cleanSlug)) {
+      toast.error(`A screen with the key "${cleanSlug}" already exists`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('screens')
+        .insert([{ name: name.trim(), slug: cleanSlug }]);
+
+      if (error) throw error;
+
+      toast.success(`Screen "${name.trim()}" added`);
+      setName('');
+      setSlug('');
+      setSlugTouched(false);
+      onChange();
+    } catch (error) {
+      console.error('Error adding screen:', error);
+      toast.error('Failed to add screen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteScreen = async (screen: Screen) => {
+    const { error } = await supabase
+      .from('screens')
+      .delete()
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to delete screen');
+    } else {
+      toast.success(`Screen "${screen.name}" deleted`);
+      onChange();
+    }
+  };
+
+  const setPlaylist = async (screen: Screen, playlistId: string | null) => {
+    const { error } = await supabase
+      .from('screens')
+      .update({ playlist_id: playlistId })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      const playlist = playlists.find(p => p.id === playlistId);
+      toast.success(playlist ? `${screen.name} now plays "${playlist.name}"` : `${screen.name} now plays its assigned items`);
+      onChange();
+    }
+  };
+
+  const setLayout = async (screen: Screen, layoutId: string | null) => {
+    const { error } = await supabase
+      .from('screens')
+      .update({ layout_id: layoutId })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      const layout = layouts.find(l => l.id === layoutId);
+      toast.success(layout ? `${screen.name} now uses "${layout.name}"` : `${screen.name} is back to full screen`);
+      onChange();
+    }
+  };
+
+  const setRotation = async (screen: Screen, rotation: ScreenRotation) => {
+    const { error } = await supabase
+      .from('screens')
+      .update({ rotation })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      const label = ROTATIONS.find(r => r.value === rotation)?.label;
+      toast.success(`${screen.name} is now ${label}`);
+      onChange();
+    }
+  };
+
+  const setVolume = async (screen: Screen, volume: number) => {
+    const { error } = await supabase
+      .from('screens')
+      .update({ volume })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      toast.success(volume > 0 ? `${screen.name} volume set to ${volume}%` : `${screen.name} is muted`);
+      onChange();
+    }
+  };
+
+  const setQuietHours = async (id: string, quietHours: DaypartRule[] | null) => {
+    const { error } = await supabase
+      .from('screens')
+      .update({ quiet_hours: quietHours })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update quiet hours');
+    } else {
+      toast.success('Quiet hours updated');
+      onChange();
+    }
+  };
+
+  const setZonePlaylist = async (screen: Screen, zoneKey: string, playlistId: string | null) => {
+    const zonePlaylists = { ...screen.zone_playlists };
+    if (playlistId) {
+      zonePlaylists[zoneKey] = playlistId;
+    } else {
+      delete zonePlaylists[zoneKey];
+    }
+
+    const { error } = await supabase
+      .from('screens')
+      .update({ zone_playlists: zonePlaylists })
+      .eq('id', screen.id);
+
+    if (error) {
+      toast.error('Failed to update screen');
+    } else {
+      onChange();
+    }
+  };
+
+  // What each zone of the screen's layout plays, shown inside the preview
+  const getZoneCaptions = (screen: Screen, layout: Layout) => Object.fromEntries(
+    layout.zones.map(zone => {
+      const playlistId = zone.key === MAIN_ZONE_KEY ? screen.playlist_id : screen.zone_playlists?.[zone.key];
+      const playlist = playlists.find(p => p.id === playlistId);
+      if (playlist) return [zone.key, playlist.name];
+      return [zone.key, zone.key === MAIN_ZONE_KEY ? 'Assigned items' : 'Nothing'];
+    })
+  );
+
+  const copyUrl = async (screen: Screen) => {
+    try {
+      await navigator.clipboard.writeText(getScreenUrl(screen.slug));
+      toast.success('Display URL copied');
+    } catch {
+      toast.error('Could not copy URL');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {screens.map(screen => {
+          const layout = layouts.find(l => l.id === screen.layout_id);
+
+          return (
+          <div key={screen.id} className="space-y-2 rounded-md border bg-white p-2 shadow-sm">
+          <div className="flex items-center gap-2">
+            <Tv className="h-4 w-4 shrink-0 text-slate-400" />
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="truncate text-sm font-medium text-slate-900">{screen.name}</p>
+              <p className="truncate text-xs text-slate-500">/?screen={screen.slug}</p>
+              <select
+                value={screen.playlist_id ?? ''}
+                onChange={(e) => setPlaylist(screen, e.target.value || null)}
+                className={SELECT_CLASS}
+                title={layout ? 'What the main zone plays' : 'What this screen plays'}
+              >
+                <option value="">Assigned items</option>
+                {playlists.map(playlist => (
+                  <option key={playlist.id} value={playlist.id}>Playlist: {playlist.name}</option>
+                ))}
+              </select>
+              <select
+                value={screen.layout_id ?? ''}
+                onChange={(e) => setLayout(screen, e.target.value || null)}
+                className={SELECT_CLASS}
+                title="How the screen is divided"
+              >
+                <option value="">Full screen</option>
+                {layouts.map(l => (
+                  <option key={l.id} value={l.id}>Layout: {l.name}</option>
+                ))}
+              </select>
+              <select
+                value={screen.rotation ?? 0}
+                onChange={(e) => setRotation(screen, Number(e.target.value) as ScreenRotation)}
+                className={SELECT_CLASS}
+                title="Rotates everything on the screen, for TVs mounted on their side"
+              >
+                {ROTATIONS.map(rotation => (
+                  <option key={rotation.value} value={rotation.value}>{rotation.label}</option>
+                ))}
+              </select>
+              <select
+                value={screen.volume ?? 100}
+                onChange={(e) => setVolume(screen, Number(e.target.value))}
+                className={SELECT_CLASS}
+                title="Master volume for videos with sound"
+              >
+                {VOLUME_STEPS.map(step => (
+                  <option key={step} value={step}>{step > 0 ? `Volume: ${step}%` : 'Muted'}</option>
+                ))}
+              </select>
+              <div className="text-xs text-slate-500">
+                <DaypartEditor
+                  id={screen.id}
+                  initialRules={screen.quiet_hours}
+                  onSave={setQuietHours}
+                  defaultRule={DEFAULT_QUIET_HOURS}
+                  label="Quiet hours"
+                  emptyLabel="none"
+                  title="Edit quiet hours"
+                />
+              </div>
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className={`relative h-7 w-7 ${widgetScreenId === screen.id ? 'bg-slate-100 text-slate-900' : 'text-slate-500'}`}
+              onClick={() => setWidgetScreenId(widgetScreenId === screen.id ? null : screen.id)}
+              title="Clock, date & countdown widgets"
+            >
+              <Clock className="h-3.5 w-3.5" />
+              {screen.widgets?.length > 0 && (
+                <span className="absolute -right-0.5 -top-0.5 flex h-3.5 min-w-3.5 items-center justify-center rounded-full bg-blue-600 px-0.5 text-[9px] text-white">
+                  {screen.widgets.length}
+                </span>
+              )}
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500" onClick={() => copyUrl(screen)} title="Copy display URL">
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500" asChild title="Open display">
+              <a href={`/?screen=${encodeURIComponent(screen.slug)}`} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-3.5 w-3.5" />
+              </a>
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-7 w-7 text-slate-500 hover:text-red-600 hover:bg-red-50">
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{screen.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Displays opened with /?screen={screen.slug} will stop playing content. Announcements themselves are kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteScreen(screen)} className="bg-red-600 hover:bg-red-700">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+
+          {layout && (
+            <div className="space-y-1.5 pl-6">
+              {layout.zones.filter(zone => zone.key !== MAIN_ZONE_KEY).map(zone => (
+                <div key={zone.key} className="flex items-center gap-2">
+                  <span className="w-16 shrink-0 truncate text-xs text-slate-500">{zone.name}</span>
+                  <select
+                    value={screen.zone_playlists?.[zone.key] ?? ''}
+                    onChange={(e) => setZonePlaylist(screen, zone.key, e.target.value || null)}
+                    className={SELECT_CLASS}
+                  >
+                    <option value="">Nothing</option>
+                    {playlists.map(playlist => (
+                      <option key={playlist.id} value={playlist.id}>Playlist: {playlist.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <LayoutPreview zones={layout.zones} captions={getZoneCaptions(screen, layout)} />
+            </div>
+          )}
+
+          {widgetScreenId === screen.id && (
+            <WidgetEditor screen={screen} onClose={() => setWidgetScreenId(null)} onChange={onChange} />
+          )}
+          </div>
+          );
+        })}
+
+        {screens.length === 0 && (
+          <div className="flex h-20 items-center justify-center rounded-lg border border-dashed text-center text-xs text-slate-400">
+            No screens yet. Without a screen, / plays every active display.
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-md border p-4 bg-white">
+        <div className="space-y-1.5">
+          <Label htmlFor="screenName" className="text-xs">Screen Name</Label>
+          <Input
+            id="screenName"
+            placeholder="e.g. Lobby TV"
+            value={name}
+            onChange={(e) => handleNameChange(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="screenSlug" className="text-xs">URL Key</Label>
+          <Input
+            id="screenSlug"
+            placeholder="lobby"
+            value={slug}
+            onChange={(e) => {
+              setSlug(e.target.value);
+              setSlugTouched(true);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addScreen();
+            }}
+          />
+          <p className="text-[0.8rem] text-slate-500">
+            Open the display at /?screen={slugify(slug) || 'key'} on the TV.
+          </p>
+        </div>
+        <Button className="w-full" variant="secondary" onClick={addScreen} disabled={saving}>
+          {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Add Screen
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef } from 'react';
+import { isVideoUrl, playsToEnd } from '../lib/media';
+import { getKenBurnsStyle } from '../lib/transitions';
+import { DEFAULT_FIT_COLOR, getFitClassName, getFitMode, getFocalStyle } from '../lib/fit';
+import { fadeOutAndPause, getItemVolume, isAudioBlocked, reportAudioBlocked, subscribeToAudioBlocked } from '../lib/audio';
+import { isTextSlide } from '../lib/textSlides';
+import { isWebSlide } from '../lib/webSlides';
+import type { Announcement } from '../types';
+import TextSlide from './TextSlide';
+import WebSlide from './WebSlide';
+
+interface SlideProps {
+  item: Announcement;
+  isActive: boolean;
+  isLeaving?: boolean; // Still on screen while its exit transition runs
+  volume?: number; // Master volume (0–1); videos stay muted at 0 or when the item has no sound
+  // Reported once the media is decoded/buffered enough to show without a blank frame
+  onReady: (id: string) => void;
+  onError?: (id: string) => void; // The media couldn't be loaded (onReady is still called)
+  onDuration?: (id: string, seconds: number) => void; // A video's real length, once its metadata has loaded
+  onEnded: (item: Announcement, video: HTMLVideoElement) => void;
+}
+
+// Renders one announcement. Only a handful of slides are mounted at a time, so each one
+// owns its media: videos play only while active and release their decoder on unmount.
+export default function Slide({ item, isActive, isLeaving = false, volume = 0, onReady, onError, onDuration, onEnded }: SlideProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cancelFadeRef = useRef<(() => void) | null>(null);
+  const isVideo = isVideoUrl(item.image_url);
+  const itemVolume = isVideo ? getItemVolume(item, volume) : 0;
+  const itemVolumeRef = useRef(itemVolume);
+  itemVolumeRef.current = itemVolume;
+
+  // Starts (or keeps) the video playing at the current volume. Browsers refuse sound before
+  // anyone has interacted with the page; then it plays muted and the display asks for a tap.
+  const startPlayback = (video: HTMLVideoElement) => {
+    const audible = itemVolumeRef.current > 0 && !isAudioBlocked();
+    video.muted = !audible;
+    if (audible) video.volume = itemVolumeRef.current;
+
+    video.play().catch((error) => {
+      if (!audible || error?.name !== 'NotAllowedError') return;
+      reportAudioBlocked();
+      video.muted = true;
+      video.play().catch(() => {});
+    });
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    cancelFadeRef.current?.();
+    cancelFadeRef.current = null;
+
+    if (isActive) {
+      // Play-to-end videos always start from the beginning when they come on screen
+      if (playsToEnd(item)) video.currentTime = 0;
+      startPlayback(video);
+    } else if (!video.muted && !video.paused) {
+      // Let the sound die away during the transition instead of cutting it off
+      cancelFadeRef.current = fadeOutAndPause(video);
+    } else {
+      video.pause();
+    }
+  }, [isActive]);
+
+  // Volume changes (e.g. quiet hours starting) apply to the video that is playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && isActive) startPlayback(video);
+  }, [itemVolume]);
+
+  // Once someone has tapped the screen, turn the sound on without restarting the video
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isActive || itemVolume === 0) return;
+
+    return subscribeToAudioBlocked((blocked) => {
+      if (!blocked) startPlayback(video);
+    });
+  }, [isActive, itemVolume > 0]);
+
+  // Free the hardware decoder as soon as the slide leaves the DOM
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      cancelFadeRef.current?.();
+      if (!video) return;
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, []);
+
+  if (isTextSlide(item)) {
+    return <TextSlide content={item.text_content!} onReady={() => onReady(item.id)} />;
+  }
+
+  if (isWebSlide(item)) {
+    return <WebSlide content={item.web_content!} onReady={() => onReady(item.id)} onError={() => onError?.(item.id)} />;
+  }
+
+  // Fills the bars around letterboxed media. Videos get no blurred copy: a second decoder is too much for TV browsers.
+  const fitMode = getFitMode(item);
+  const backdrop = fitMode === 'color' ? (
+    <div className="absolute inset-0" style={{ backgroundColor: item.fit_color || DEFAULT_FIT_COLOR }} />
+  ) : fitMode === 'blur' && !isVideo ? (
+    <img
+      src={item.image_url ?? undefined}
+      alt=""
+      aria-hidden
+      decoding="async"
+      className="absolute inset-0 h-full w-full scale-110 object-cover blur-2xl brightness-75"
+    />
+  ) : null;
+
+  if (isVideo) {
+    return (
+      <>
+        {backdrop}
+        <video
+          ref={videoRef}
+          src={item.image_url ?? undefined}
+          className={getFitClassName(item)}
+          style={getFocalStyle(item)}
+          preload="auto"
+          muted
+          loop={!playsToEnd(item)}
+          playsInline
+          onCanPlay={() => onReady(item.id)}
+          onLoadedMetadata={(e) => {
+            const seconds = e.currentTarget.duration;
+            if (Number.isFinite(seconds) && seconds > 0) onDuration?.(item.id, seconds);
+          }}
+          onError={() => {
+            onError?.(item.id);
+            onReady(item.id);
+          }}
+          onEnded={(e) => onEnded(item, e.currentTarget)}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {backdrop}
+      <img
+        src={item.image_url ?? undefined}
+        alt="Announcement"
+        decoding="async"
+        className={getFitClassName(item)}
+        style={{ ...getFocalStyle(item), ...((isActive || isLeaving) && item.ken_burns ? getKenBurnsStyle(item) : undefined) }}
+        onLoad={(e) => {
+          // Decode off the main thread before the transition starts
+          e.currentTarget.decode().catch(() => {}).then(() => onReady(item.id));
+        }}
+        onError={() => {
+          onError?.(item.id);
+          onReady(item.id);
+        }}
+      />
+    </>
+  );
+}
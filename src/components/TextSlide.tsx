@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import type { TextAlign, TextSlideContent } from '../types';
+
+const ALIGN_CLASSES: Record<TextAlign, string> = {
+  left: 'items-start text-left',
+  center: 'items-center text-center',
+  right: 'items-end text-right',
+};
+
+interface TextSlideProps {
+  content: TextSlideContent;
+  // Reported once the background image (if any) is decoded
+  onReady?: () => void;
+}
+
+// Renders a text slide natively. Sizes are in container units (cqh/cqw), so the slide looks
+// the same on a 4K TV, in a sidebar zone and in the small preview of the editor.
+export default function TextSlide({ content, onReady }: TextSlideProps) {
+  useEffect(() => {
+    if (!onReady) return;
+
+    const url = content.background_image_url;
+    if (!url) {
+      onReady();
+      return;
+    }
+
+    const image = new Image();
+    image.src = url;
+    image.decode().catch(() => {}).then(onReady);
+  }, [content.background_image_url]);
+
+  const hasImage = !!content.background_image_url;
+
+  return (
+    <div
+      className="h-full w-full overflow-hidden bg-cover bg-center [container-type:size]"
+      style={{
+        backgroundColor: content.background_color,
+        backgroundImage: hasImage ? `url("${content.background_image_url}")` : undefined,
+        color: content.text_color,
+      }}
+    >
+      <div
+        className={`flex h-full w-full flex-col justify-center gap-[4cqh] px-[6cqw] py-[6cqh] break-words ${ALIGN_CLASSES[content.align] ?? ALIGN_CLASSES.center} ${
+          hasImage ? '[text-shadow:0_0.3cqh_1.5cqh_rgb(0_0_0/0.6)]' : ''
+        }`}
+      >
+        {content.headline && (
+          <h1 className="max-w-full font-bold leading-tight" style={{ fontSize: `${content.headline_size}cqh` }}>
+            {content.headline}
+          </h1>
+        )}
+        {content.body && (
+          <p className="max-w-full whitespace-pre-line leading-snug" style={{ fontSize: `${content.body_size}cqh` }}>
+            {content.body}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
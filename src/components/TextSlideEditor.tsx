@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { describeError } from '../lib/utils';
+import { removeFromStorage, uploadToStorage } from '../lib/storage';
+import { DEFAULT_TEXT_CONTENT } from '../lib/textSlides';
+import { DEFAULT_TRANSITION_MS } from '../lib/transitions';
+import type { Announcement, TextAlign, TextSlideContent, TransitionType } from '../types';
+import toast from 'react-hot-toast';
+import { X, Loader2, AlignLeft, AlignCenter, AlignRight, ImagePlus, Trash2 } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import TextSlide from './TextSlide';
+import TransitionPicker, { type TransitionValue } from './TransitionPicker';
+
+const ALIGN_OPTIONS: { value: TextAlign; icon: typeof AlignLeft; label: string }[] = [
+  { value: 'left', icon: AlignLeft, label: 'Align left' },
+  { value: 'center', icon: AlignCenter, label: 'Align center' },
+  { value: 'right', icon: AlignRight, label: 'Align right' },
+];
+
+interface TextSlideEditorProps {
+  item: Announcement | null; // null = compose a new slide
+  defaultDuration: number;
+  defaultTransition: TransitionType;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Modal editor for text slides, with a live preview rendered by the same component as the display
+export default function TextSlideEditor({ item, defaultDuration, defaultTransition, onClose, onSaved }: TextSlideEditorProps) {
+  const [content, setContent] = useState<TextSlideContent>(item?.text_content ?? DEFAULT_TEXT_CONTENT);
+  const [title, setTitle] = useState(item?.title ?? '');
+  const [duration, setDuration] = useState(defaultDuration);
+  const [transition, setTransition] = useState<TransitionValue>({ type: defaultTransition, durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
+  const [backgroundFile, setBackgroundFile] = useState<File | null>(null);
+  const [backgroundPreviewUrl, setBackgroundPreviewUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isNew = !item;
+
+  useEffect(() => {
+    return () => {
+      if (backgroundPreviewUrl) URL.revokeObjectURL(backgroundPreviewUrl);
+    };
+  }, [backgroundPreviewUrl]);
+
+  const update = (patch: Partial<TextSlideContent>) => {
+    setContent(prev => ({ ...prev, ...patch }));
+  };
+
+  const onBackgroundSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    setBackgroundFile(file);
+    setBackgroundPreviewUrl(URL.createObjectURL(file));
+  };
+
+  const removeBackground = () => {
+    setBackgroundFile(null);
+    setBackgroundPreviewUrl(null);
+    update({ background_image_url: null });
+  };
+
+  const save = async () => {
+    if (!content.headline.trim() && !content.body.trim()) {
+      toast.error('Add a headline or some body text');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let backgroundUrl = content.background_image_url;
+
+      // 1. Upload a newly chosen background image
+      if (backgroundFile) {
+        backgroundUrl = await uploadToStorage(backgroundFile);
+      }
+
+      const textContent: TextSlideContent = { ...content, background_image_url: backgroundUrl };
+      const slideTitle = title.trim() || content.headline.trim() || 'Text slide';
+
+      // 2. Save the slide
+      const { error } = isNew
+        ? await supabase
+            .from('announcements')
+            .insert([{
+              content_type: 'text',
+              image_url: null,
+              text_content: textContent,
+              title: slideTitle,
+              display_duration: duration,
+              transition_type: transition.type,
+              transition_duration: transition.durationMs,
+              active: true,
+            }])
+        : await supabase
+            .from('announcements')
+            .update({ text_content: textContent, title: slideTitle })
+            .eq('id', item.id);
+
+      if (error) throw error;
+
+      // 3. Drop the background image that was replaced or removed
+      const previousUrl = item?.text_content?.background_image_url;
+      if (previousUrl && previousUrl !== backgroundUrl) {
+        await removeFromStorage([previousUrl]);
+      }
+
+      toast.success(isNew ? 'Text slide created' : 'Text slide updated');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error(error);
+      toast.error(describeError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewContent = { ...content, background_image_url: backgroundPreviewUrl ?? content.background_image_url };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{isNew ? 'New Text Slide' : 'Edit Text Slide'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Live preview */}
+          <div className="aspect-video w-full overflow-hidden rounded-md border">
+            <TextSlide content={previewContent} />
+          </div>
+
+          <div className="grid gap-4 text-sm">
+            <div className="space-y-1.5">
+              <Label htmlFor="textHeadline">Headline</Label>
+              <Input
+                id="textHeadline"
+                placeholder="e.g. Fire drill at 14:00"
+                value={content.headline}
+                onChange={(e) => update({ headline: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="textBody">Body</Label>
+              <textarea
+                id="textBody"
+                rows={3}
+                placeholder="Please leave the building by the nearest exit."
+                value={content.body}
+                onChange={(e) => update({ body: e.target.value })}
+                className="flex w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm placeholder:text-slate-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="textHeadlineSize">Headline Size ({content.headline_size}%)</Label>
+                <input
+                  id="textHeadlineSize"
+                  type="range"
+                  min="4"
+                  max="30"
+                  value={content.headline_size}
+                  onChange={(e) => update({ headline_size: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="textBodySize">Body Size ({content.body_size}%)</Label>
+                <input
+                  id="textBodySize"
+                  type="range"
+                  min="2"
+                  max="15"
+                  value={content.body_size}
+                  onChange={(e) => update({ body_size: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1.5">
+                <Label>Alignment</Label>
+                <div className="flex gap-1 rounded-lg bg-slate-100 p-1">
+                  {ALIGN_OPTIONS.map(({ value, icon: Icon, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => update({ align: value })}
+                      className={`rounded-md p-1.5 transition-all ${
+                        content.align === value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'
+                      }`}
+                      title={label}
+                    >
+                      <Icon className="h-4 w-4" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="textColor">Text</Label>
+                <input
+                  id="textColor"
+                  type="color"
+                  value={content.text_color}
+                  onChange={(e) => update({ text_color: e.target.value })}
+                  className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="textBackground">Background</Label>
+                <input
+                  id="textBackground"
+                  type="color"
+                  value={content.background_color}
+                  onChange={(e) => update({ background_color: e.target.value })}
+                  className="h-9 w-14 cursor-pointer rounded-md border border-slate-200 bg-white p-1"
+                />
+              </div>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="h-9 cursor-pointer" asChild>
+                  <label>
+                    <ImagePlus className="mr-2 h-4 w-4" />
+                    {previewContent.background_image_url ? 'Change Image' : 'Background Image'}
+                    <input type="file" accept="image/*" onChange={onBackgroundSelect} className="sr-only" />
+                  </label>
+                </Button>
+                {previewContent.background_image_url && (
+                  <Button variant="ghost" size="icon" className="h-9 w-9 text-slate-500 hover:text-red-600 hover:bg-red-50" onClick={removeBackground} title="Remove background image">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="textTitle">Title (Optional)</Label>
+              <Input
+                id="textTitle"
+                placeholder={content.headline || 'Shown in the content list'}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            {isNew && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="textDuration">Display Duration (seconds)</Label>
+                  <Input
+                    id="textDuration"
+                    type="number"
+                    min="1"
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value))}
+                  />
+                </div>
+                <TransitionPicker value={transition} onChange={setTransition} idPrefix="text" />
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isNew ? 'Create Slide' : 'Save Changes'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
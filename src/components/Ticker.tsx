@@ -0,0 +1,106 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { getScheduleStatus } from '../lib/schedule';
+import type { TickerStyle } from '../lib/ticker';
+import type { TickerMessage } from '../types';
+
+// How often scheduling windows are re-checked
+const SCHEDULE_TICK_MS = 30 * 1000;
+// Longest frame we catch up on, so a throttled background tab doesn't make the text jump
+const MAX_FRAME_SECONDS = 0.1;
+
+interface TickerProps {
+  messages: TickerMessage[];
+  style: TickerStyle;
+}
+
+// Continuously scrolling text bar. The scroll position lives in a ref and is applied straight
+// to the DOM each frame, so re-renders (slide changes, refreshes) never restart or stutter it.
+export default function Ticker({ messages, style }: TickerProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [copies, setCopies] = useState(2);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const segmentRef = useRef<HTMLDivElement>(null);
+  const offsetRef = useRef(0);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(new Date()), SCHEDULE_TICK_MS);
+    return () => clearInterval(tick);
+  }, []);
+
+  const visible = messages.filter(message => getScheduleStatus(message, now) === 'live');
+  const textKey = visible.map(message => message.text).join('\n');
+
+  // Repeat the messages often enough to fill the bar with no gap at the wrap-around point
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const segment = segmentRef.current;
+    if (!container || !segment) return;
+
+    const measure = () => {
+      const segmentWidth = segment.offsetWidth;
+      if (segmentWidth > 0) setCopies(Math.ceil(container.clientWidth / segmentWidth) + 1);
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    observer.observe(segment);
+    return () => observer.disconnect();
+  }, [textKey]);
+
+  useEffect(() => {
+    if (!textKey) return;
+
+    let frame: number;
+    let last = performance.now();
+
+    const step = (time: number) => {
+      const seconds = Math.min((time - last) / 1000, MAX_FRAME_SECONDS);
+      last = time;
+
+      const container = containerRef.current;
+      const track = trackRef.current;
+      const segmentWidth = segmentRef.current?.offsetWidth ?? 0;
+
+      if (container && track && segmentWidth > 0) {
+        offsetRef.current = (offsetRef.current + (style.speed / 100) * container.clientWidth * seconds) % segmentWidth;
+        track.style.transform = `translate3d(${-offsetRef.current}px, 0, 0)`;
+      }
+
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [style.speed, textKey]);
+
+  if (!textKey) return null;
+
+  const segment = (
+    <>
+      {visible.map(message => (
+        <React.Fragment key={message.id}>
+          <span className="px-[2vh]">{message.text}</span>
+          <span aria-hidden className="opacity-60">•</span>
+        </React.Fragment>
+      ))}
+    </>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative z-40 flex h-[6vh] shrink-0 items-center overflow-hidden"
+      style={{ backgroundColor: style.backgroundColor, color: style.textColor }}
+    >
+      <div ref={trackRef} className="flex whitespace-nowrap text-[3vh] font-medium will-change-transform">
+        {Array.from({ length: copies }, (_, index) => (
+          <div key={index} ref={index === 0 ? segmentRef : undefined} className="flex shrink-0 items-center" aria-hidden={index > 0}>
+            {segment}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
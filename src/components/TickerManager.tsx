@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { TickerMessage } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, Loader2, ArrowUp, ArrowDown, Pencil, Check, X } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import EditableSchedule from './EditableSchedule';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "./ui/alert-dialog";
+
+// Helper component for editable message text
+function EditableMessageText({ message, onSave }: { message: TickerMessage; onSave: (id: string, text: string) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(message.text);
+
+  const startEditing = () => {
+    setText(message.text);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!text.trim()) return;
+    onSave(message.id, text.trim());
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-1">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="h-7 text-sm"
+          autoFocus
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+        />
+        <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0 text-green-600" onClick={handleSave}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0 text-slate-400" onClick={() => setIsEditing(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 group/text">
+      <p className="text-sm text-slate-900 break-words">{message.text}</p>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-4 w-4 shrink-0 opacity-0 group-hover/text:opacity-100 transition-opacity"
+        onClick={startEditing}
+        title="Edit message"
+      >
+        <Pencil className="h-2.5 w-2.5 text-slate-400 hover:text-slate-600" />
+      </Button>
+    </div>
+  );
+}
+
+interface TickerManagerProps {
+  messages: TickerMessage[];
+  onChange: () => void;
+}
+
+export default function TickerManager({ messages, onChange }: TickerManagerProps) {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const addMessage = async () => {
+    if (!text.trim()) return;
+
+    setSaving(true);
+    try {
+      const nextIndex = messages.reduce((max, m) => Math.max(max, m.order_index), -1) + 1;
+      const { error } = await supabase
+        .from('ticker_messages')
+        .insert([{ text: text.trim(), order_index: nextIndex }]);
+
+      if (error) throw error;
+
+      toast.success('Ticker message added');
+      setText('');
+      onChange();
+    } catch (error) {
+      console.error('Error adding ticker message:', error);
+      toast.error('Failed to add message');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateMessage = async (id: string, patch: Partial<TickerMessage>, successMessage?: string) => {
+    const { error } = await supabase
+      .from('ticker_messages')
+      .update(patch)
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update message');
+    } else {
+      if (successMessage) toast.success(successMessage);
+      onChange();
+    }
+  };
+
+  // Swap with the neighbour and renumber the whole list so indexes stay unique
+  const moveMessage = async (index: number, step: 1 | -1) => {
+    const reordered = [...messages];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + step, 0, moved);
+
+    const { error } = await supabase
+      .from('ticker_messages')
+      .upsert(reordered.map((message, order) => ({ ...message, order_index: order })));
+
+    if (error) {
+      toast.error('Failed to reorder messages');
+    } else {
+      onChange();
+    }
+  };
+
+  const deleteMessage = async (message: TickerMessage) => {
+    const { error } = await supabase
+      .from('ticker_messages')
+      .delete()
+      .eq('id', message.id);
+
+    if (error) {
+      toast.error('Failed to delete message');
+    } else {
+      toast.success('Ticker message deleted');
+      onChange();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {messages.map((message, index) => (
+          <div key={message.id} className="flex items-start gap-2 rounded-md border bg-white p-2 shadow-sm">
+            <div className="flex flex-col">
+              <Button size="icon" variant="ghost" className="h-5 w-5 text-slate-400" onClick={() => moveMessage(index, -1)} disabled={index === 0} title="Move Up">
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-5 w-5 text-slate-400" onClick={() => moveMessage(index, 1)} disabled={index === messages.length - 1} title="Move Down">
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="min-w-0 flex-1 space-y-1">
+              <EditableMessageText
+                message={message}
+                onSave={(id, newText) => updateMessage(id, { text: newText }, 'Message updated')}
+              />
+              <div className="text-xs text-slate-500">
+                <EditableSchedule
+                  item={message}
+                  onSave={(id, publishAt, expireAt) => updateMessage(id, { publish_at: publishAt, expire_at: expireAt }, 'Schedule updated')}
+                />
+              </div>
+            </div>
+            <Switch
+              checked={message.active}
+              onCheckedChange={(checked) => updateMessage(message.id, { active: checked })}
+              title={message.active ? 'Active' : 'Hidden'}
+            />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0 text-slate-500 hover:text-red-600 hover:bg-red-50">
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    "{message.text}" will disappear from the ticker on every screen.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteMessage(message)} className="bg-red-600 hover:bg-red-700">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        ))}
+
+        {messages.length === 0 && (
+          <div className="flex h-20 items-center justify-center rounded-lg border border-dashed px-4 text-center text-xs text-slate-400">
+            No messages yet. The ticker is hidden until at least one message is active.
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g. Canteen closes early on Friday"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addMessage();
+          }}
+        />
+        <Button variant="secondary" onClick={addMessage} disabled={saving || !text.trim()}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
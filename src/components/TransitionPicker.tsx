@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { TRANSITIONS, getTransitionStyle, getKenBurnsStyle } from '../lib/transitions';
+import type { TransitionType } from '../types';
+
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+
+// Pause between preview loops so each transition can be seen on its own
+const PREVIEW_PAUSE_MS = 900;
+
+const PREVIEW_TILES = [
+  { label: 'A', className: 'bg-linear-to-br from-blue-500 to-indigo-600' },
+  { label: 'B', className: 'bg-linear-to-br from-amber-400 to-rose-500' },
+];
+
+export interface TransitionValue {
+  type: TransitionType;
+  durationMs: number;
+  kenBurns: boolean;
+}
+
+// Small looping animation of the chosen effect, using the same keyframes as the display
+export function TransitionPreview({ value }: { value: TransitionValue }) {
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    setStep(0);
+    const timer = setInterval(() => setStep(s => s + 1), value.durationMs + PREVIEW_PAUSE_MS);
+    return () => clearInterval(timer);
+  }, [value.type, value.durationMs]);
+
+  const incoming = { transition_type: value.type, transition_duration: value.durationMs };
+  const current = PREVIEW_TILES[step % 2];
+  const previous = PREVIEW_TILES[(step + 1) % 2];
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-md bg-black">
+      {step > 0 && (
+        <div
+          key={`out-${step}`}
+          className={`absolute inset-0 flex items-center justify-center text-2xl font-bold text-white/90 ${previous.className}`}
+          style={getTransitionStyle(incoming, 'forward', 'exit') ?? { visibility: 'hidden' }}
+        >
+          {previous.label}
+        </div>
+      )}
+      <div
+        key={`in-${step}`}
+        className="absolute inset-0 overflow-hidden"
+        style={getTransitionStyle(incoming, 'forward', 'enter') ?? undefined}
+      >
+        <div
+          className={`flex h-full w-full items-center justify-center text-2xl font-bold text-white/90 ${current.className}`}
+          style={value.kenBurns ? getKenBurnsStyle({ id: current.label, display_duration: 3, transition_duration: value.durationMs }) : undefined}
+        >
+          {current.label}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TransitionPickerProps {
+  value: TransitionValue;
+  onChange: (value: TransitionValue) => void;
+  showDuration?: boolean;
+  showKenBurns?: boolean;
+  idPrefix: string;
+}
+
+export default function TransitionPicker({ value, onChange, showDuration = true, showKenBurns = false, idPrefix }: TransitionPickerProps) {
+  return (
+    <div className="grid grid-cols-[1fr_8rem] gap-3">
+      <div className="space-y-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-transition`} className="text-xs">Transition</Label>
+          <select
+            id={`${idPrefix}-transition`}
+            value={value.type}
+            onChange={(e) => onChange({ ...value, type: e.target.value as TransitionType })}
+            className="h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {TRANSITIONS.map(t => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        {showDuration && value.type !== 'none' && (
+          <div className="space-y-1.5">
+            <Label htmlFor={`${idPrefix}-transition-duration`} className="text-xs">Transition Speed (seconds)</Label>
+            <Input
+              id={`${idPrefix}-transition-duration`}
+              type="number"
+              min="0.1"
+              max="5"
+              step="0.1"
+              value={value.durationMs / 1000}
+              onChange={(e) => onChange({ ...value, durationMs: Math.round(Math.max(0.1, Number(e.target.value)) * 1000) })}
+              className="h-9"
+            />
+          </div>
+        )}
+        {showKenBurns && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${idPrefix}-ken-burns`}
+              checked={value.kenBurns}
+              onCheckedChange={(checked) => onChange({ ...value, kenBurns: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-ken-burns`} className="text-xs">Ken Burns pan &amp; zoom</Label>
+          </div>
+        )}
+      </div>
+      <TransitionPreview value={value} />
+    </div>
+  );
+}
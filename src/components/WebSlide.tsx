@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Globe } from 'lucide-react';
+import { getWebSlideSandbox } from '../lib/webSlides';
+import type { WebSlideContent } from '../types';
+
+// A page that hasn't fired `load` by then is treated as unreachable
+const LOAD_TIMEOUT_MS = 15 * 1000;
+
+interface WebSlideProps {
+  content: WebSlideContent;
+  // Reported once the page has loaded, or once we've given up and show the fallback
+  onReady?: () => void;
+  onError?: () => void; // The page didn't load (or the display is offline)
+}
+
+// Embeds a web page in a sandboxed iframe: scripts may run, but the page can't navigate the
+// display or open popups. Pages on the display's own origin also lose their origin, since they
+// could otherwise reach the parent window and lift the sandbox.
+export default function WebSlide({ content, onReady, onError }: WebSlideProps) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const [failed, setFailed] = useState(false);
+  const loadedRef = useRef(false);
+
+  // Periodic reload while the slide is mounted
+  useEffect(() => {
+    if (!content.reload_interval || content.reload_interval <= 0) return;
+    const timer = setInterval(() => setReloadCount(count => count + 1), content.reload_interval * 1000);
+    return () => clearInterval(timer);
+  }, [content.reload_interval]);
+
+  // Show the fallback while offline and retry as soon as the network is back
+  useEffect(() => {
+    const handleOffline = () => setFailed(true);
+    const handleOnline = () => setReloadCount(count => count + 1);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  // Watchdog for every (re)load; iframes don't report most failures, so silence counts as one
+  useEffect(() => {
+    loadedRef.current = false;
+
+    if (!navigator.onLine) {
+      setFailed(true);
+      onError?.();
+      onReady?.();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (loadedRef.current) return;
+      setFailed(true);
+      onError?.();
+      onReady?.();
+    }, LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [content.url, reloadCount]);
+
+  const scale = Math.max(content.zoom || 100, 10) / 100;
+
+  return (
+    <div className="relative h-full w-full overflow-hidden bg-white">
+      <iframe
+        key={reloadCount}
+        src={content.url}
+        title="Web page"
+        sandbox={getWebSlideSandbox(content.url)}
+        referrerPolicy="no-referrer"
+        tabIndex={-1}
+        className="pointer-events-none absolute left-0 top-0 border-0"
+        style={{
+          width: `${100 / scale}%`,
+          height: `${100 / scale}%`,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+        onLoad={() => {
+          loadedRef.current = true;
+          setFailed(false);
+          onReady?.();
+        }}
+      />
+
+      {failed && (
+        content.fallback_image_url ? (
+          <img src={content.fallback_image_url} alt="" className="absolute inset-0 h-full w-full bg-black object-contain" />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black text-gray-500">
+            <Globe className="h-12 w-12" />
+            <p className="text-xl">Page unavailable</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { describeError } from '../lib/utils';
+import { removeFromStorage, uploadToStorage } from '../lib/storage';
+import { DEFAULT_WEB_CONTENT, normalizeWebUrl } from '../lib/webSlides';
+import { DEFAULT_TRANSITION_MS } from '../lib/transitions';
+import type { Announcement, TransitionType, WebSlideContent } from '../types';
+import toast from 'react-hot-toast';
+import { X, Loader2, ImagePlus, Trash2, RefreshCw } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import WebSlide from './WebSlide';
+import ScaledPreview from './ScaledPreview';
+import TransitionPicker, { type TransitionValue } from './TransitionPicker';
+
+interface WebSlideEditorProps {
+  item: Announcement | null; // null = add a new web page
+  defaultDuration: number;
+  defaultTransition: TransitionType;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function WebSlideEditor({ item, defaultDuration, defaultTransition, onClose, onSaved }: WebSlideEditorProps) {
+  const [content, setContent] = useState<WebSlideContent>(item?.web_content ?? DEFAULT_WEB_CONTENT);
+  const [urlInput, setUrlInput] = useState(item?.web_content?.url ?? '');
+  const [title, setTitle] = useState(item?.title ?? '');
+  const [duration, setDuration] = useState(Math.max(defaultDuration, 30));
+  const [transition, setTransition] = useState<TransitionValue>({ type: defaultTransition, durationMs: DEFAULT_TRANSITION_MS, kenBurns: false });
+  const [fallbackFile, setFallbackFile] = useState<File | null>(null);
+  const [fallbackPreviewUrl, setFallbackPreviewUrl] = useState<string | null>(null);
+  const [previewKey, setPreviewKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const isNew = !item;
+
+  useEffect(() => {
+    return () => {
+      if (fallbackPreviewUrl) URL.revokeObjectURL(fallbackPreviewUrl);
+    };
+  }, [fallbackPreviewUrl]);
+
+  const update = (patch: Partial<WebSlideContent>) => {
+    setContent(prev => ({ ...prev, ...patch }));
+  };
+
+  // Only load the preview once the address is complete, not on every keystroke
+  const applyUrl = () => {
+    const url = normalizeWebUrl(urlInput);
+    if (urlInput.trim() && !url) {
+      toast.error('Enter a valid http(s) address');
+      return;
+    }
+    if (url) setUrlInput(url);
+    update({ url: url ?? '' });
+    setPreviewKey(key => key + 1);
+  };
+
+  const onFallbackSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    setFallbackFile(file);
+    setFallbackPreviewUrl(URL.createObjectURL(file));
+  };
+
+  const removeFallback = () => {
+    setFallbackFile(null);
+    setFallbackPreviewUrl(null);
+    update({ fallback_image_url: null });
+  };
+
+  const save = async () => {
+    const url = normalizeWebUrl(urlInput);
+    if (!url) {
+      toast.error('Enter a valid http(s) address');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // 1. Upload a newly chosen fallback image
+      let fallbackUrl = content.fallback_image_url;
+      if (fallbackFile) {
+        fallbackUrl = await uploadToStorage(fallbackFile);
+      }
+
+      const webContent: WebSlideContent = { ...content, url, fallback_image_url: fallbackUrl };
+      const slideTitle = title.trim() || new URL(url).hostname;
+
+      // 2. Save the slide
+      const { error } = isNew
+        ? await supabase
+            .from('announcements')
+            .insert([{
+              content_type: 'url',
+              image_url: null,
+              web_content: webContent,
+              title: slideTitle,
+              display_duration: duration,
+              transition_type: transition.type,
+              transition_duration: transition.durationMs,
+              active: true,
+            }])
+        : await supabase
+            .from('announcements')
+            .update({ web_content: webContent, title: slideTitle })
+            .eq('id', item.id);
+
+      if (error) throw error;
+
+      // 3. Drop the fallback image that was replaced or removed
+      const previousUrl = item?.web_content?.fallback_image_url;
+      if (previousUrl && previousUrl !== fallbackUrl) {
+        await removeFromStorage([previousUrl]);
+      }
+
+      toast.success(isNew ? 'Web page added' : 'Web page updated');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error(error);
+      toast.error(describeError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewContent = { ...content, fallback_image_url: fallbackPreviewUrl ?? content.fallback_image_url };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 backdrop-blur-sm">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto border-0 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{isNew ? 'Add Web Page' : 'Edit Web Page'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ScaledPreview>
+            {content.url ? (
+              <WebSlide key={previewKey} content={previewContent} />
+            ) : (
+              <div className="flex h-full w-full items-center justify-center text-5xl text-slate-400">
+                Enter an address to preview the page
+              </div>
+            )}
+          </ScaledPreview>
+
+          <div className="grid gap-4 text-sm">
+            <div className="space-y-1.5">
+              <Label htmlFor="webUrl">Address</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="webUrl"
+                  placeholder="https://intranet.example.com/menu"
+                  value={urlInput}
+                  onChange={(e) => setUrlInput(e.target.value)}
+                  onBlur={applyUrl}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') applyUrl();
+                  }}
+                />
+                <Button variant="outline" size="icon" className="shrink-0" onClick={applyUrl} title="Reload preview">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-[0.8rem] text-slate-500">
+                The site must allow being embedded in a frame. Pages that don't load within 15 seconds, or while the display is offline, show the fallback image.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="webZoom">Zoom ({content.zoom}%)</Label>
+                <input
+                  id="webZoom"
+                  type="range"
+                  min="25"
+                  max="200"
+                  step="5"
+                  value={content.zoom}
+                  onChange={(e) => update({ zoom: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="webReload">Reload Every (minutes)</Label>
+                <Input
+                  id="webReload"
+                  type="number"
+                  min="0"
+                  value={content.reload_interval / 60}
+                  onChange={(e) => update({ reload_interval: Math.max(0, Math.round(Number(e.target.value) * 60)) })}
+                />
+                <p className="text-[0.8rem] text-slate-500">0 = load once per showing.</p>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Fallback Image</Label>
+              <div className="flex items-center gap-2">
+                {previewContent.fallback_image_url && (
+                  <img src={previewContent.fallback_image_url} alt="Fallback" className="h-9 w-16 rounded border object-cover" />
+                )}
+                <Button variant="outline" size="sm" className="h-9 cursor-pointer" asChild>
+                  <label>
+                    <ImagePlus className="mr-2 h-4 w-4" />
+                    {previewContent.fallback_image_url ? 'Change Image' : 'Choose Image'}
+                    <input type="file" accept="image/*" onChange={onFallbackSelect} className="sr-only" />
+                  </label>
+                </Button>
+                {previewContent.fallback_image_url && (
+                  <Button variant="ghost" size="icon" className="h-9 w-9 text-slate-500 hover:text-red-600 hover:bg-red-50" onClick={removeFallback} title="Remove fallback image">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="webTitle">Title (Optional)</Label>
+              <Input
+                id="webTitle"
+                placeholder="Defaults to the site name"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            {isNew && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="webDuration">Display Duration (seconds)</Label>
+                  <Input
+                    id="webDuration"
+                    type="number"
+                    min="1"
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value))}
+                  />
+                </div>
+                <TransitionPicker value={transition} onChange={setTransition} idPrefix="web" />
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isNew ? 'Add Web Page' : 'Save Changes'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  WIDGET_POSITIONS,
+  WIDGET_TYPES,
+  createWidget,
+  fromZonedDateTimeLocal,
+  isValidTimeZone,
+  toZonedDateTimeLocal,
+} from '../lib/widgets';
+import type { Screen, ScreenWidget, WidgetPosition, WidgetType } from '../types';
+import toast from 'react-hot-toast';
+import { Trash2, Plus, Loader2, Save } from 'lucide-react';
+
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import WidgetOverlay from './WidgetOverlay';
+
+const SELECT_CLASS = 'h-7 w-full rounded-md border border-slate-200 bg-white px-1.5 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+// Backdrops are drawn semi-transparent; the colour input only picks the RGB part
+const BACKDROP_ALPHA = '99';
+
+function WidgetFields({ widget, onChange, onRemove }: { widget: ScreenWidget; onChange: (patch: Partial<ScreenWidget>) => void; onRemove: () => void }) {
+  const isClock = widget.type === 'digital_clock' || widget.type === 'analog_clock';
+  const validZone = isValidTimeZone(widget.time_zone);
+  const idPrefix = `widget-${widget.id}`;
+
+  return (
+    <div className="space-y-2 rounded-md bg-slate-50 p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-700">{WIDGET_TYPES.find(t => t.value === widget.type)?.label}</span>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-slate-400 hover:text-red-600 hover:bg-red-50" onClick={onRemove} title="Remove widget">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}-position`} className="text-[10px] text-slate-500">Position</Label>
+          <select
+            id={`${idPrefix}-position`}
+            value={widget.position}
+            onChange={(e) => onChange({ position: e.target.value as WidgetPosition })}
+            className={SELECT_CLASS}
+          >
+            {WIDGET_POSITIONS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}-size`} className="text-[10px] text-slate-500">Size ({widget.size})</Label>
+          <input
+            id={`${idPrefix}-size`}
+            type="range"
+            min="2"
+            max="15"
+            value={widget.size}
+            onChange={(e) => onChange({ size: Number(e.target.value) })}
+            className="h-7 w-full accent-blue-600"
+          />
+        </div>
+        <div className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}-zone`} className="text-[10px] text-slate-500">Time Zone</Label>
+          <Input
+            id={`${idPrefix}-zone`}
+            list="widget-time-zones"
+            value={widget.time_zone}
+            onChange={(e) => onChange({ time_zone: e.target.value })}
+            className={`h-7 px-1.5 text-xs ${validZone ? '' : 'border-red-300 text-red-600'}`}
+            title={validZone ? undefined : 'Unknown time zone; the display will use UTC'}
+          />
+        </div>
+        {widget.type !== 'analog_clock' && (
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-locale`} className="text-[10px] text-slate-500">Locale</Label>
+            <Input
+              id={`${idPrefix}-locale`}
+              placeholder="en-GB"
+              value={widget.locale}
+              onChange={(e) => onChange({ locale: e.target.value })}
+              className="h-7 px-1.5 text-xs"
+            />
+          </div>
+        )}
+      </div>
+
+      {widget.type === 'countdown' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-label`} className="text-[10px] text-slate-500">Event</Label>
+            <Input
+              id={`${idPrefix}-label`}
+              placeholder="e.g. Open day"
+              value={widget.label}
+              onChange={(e) => onChange({ label: e.target.value })}
+              className="h-7 px-1.5 text-xs"
+            />
+          </div>
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-target`} className="text-[10px] text-slate-500">Starts ({validZone ? widget.time_zone : 'UTC'})</Label>
+            <Input
+              id={`${idPrefix}-target`}
+              type="datetime-local"
+              value={toZonedDateTimeLocal(widget.target, validZone ? widget.time_zone : 'UTC')}
+              onChange={(e) => onChange({ target: fromZonedDateTimeLocal(e.target.value, validZone ? widget.time_zone : 'UTC') })}
+              className="h-7 px-1.5 text-xs"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1.5">
+          <input
+            id={`${idPrefix}-color`}
+            type="color"
+            value={widget.text_color}
+            onChange={(e) => onChange({ text_color: e.target.value })}
+            className="h-6 w-8 cursor-pointer rounded border border-slate-200 bg-white p-0.5"
+          />
+          <Label htmlFor={`${idPrefix}-color`} className="text-[10px] text-slate-500">Text</Label>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Switch
+            id={`${idPrefix}-backdrop`}
+            checked={!!widget.background_color}
+            onCheckedChange={(checked) => onChange({ background_color: checked ? `#000000${BACKDROP_ALPHA}` : null })}
+          />
+          <Label htmlFor={`${idPrefix}-backdrop`} className="text-[10px] text-slate-500">Backdrop</Label>
+          {widget.background_color && (
+            <input
+              type="color"
+              value={widget.background_color.slice(0, 7)}
+              onChange={(e) => onChange({ background_color: `${e.target.value}${BACKDROP_ALPHA}` })}
+              className="h-6 w-8 cursor-pointer rounded border border-slate-200 bg-white p-0.5"
+              title="Backdrop colour"
+            />
+          )}
+        </div>
+        {isClock && (
+          <div className="flex items-center gap-1.5">
+            <Switch
+              id={`${idPrefix}-seconds`}
+              checked={widget.show_seconds}
+              onCheckedChange={(checked) => onChange({ show_seconds: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-seconds`} className="text-[10px] text-slate-500">Seconds</Label>
+          </div>
+        )}
+        {widget.type === 'digital_clock' && (
+          <div className="flex items-center gap-1.5">
+            <Switch
+              id={`${idPrefix}-hour12`}
+              checked={widget.hour12}
+              onCheckedChange={(checked) => onChange({ hour12: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-hour12`} className="text-[10px] text-slate-500">12-hour</Label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface WidgetEditorProps {
+  screen: Screen;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+// Edits the overlay widgets of one screen, with a scaled preview of where they will appear
+export default function WidgetEditor({ screen, onClose, onChange }: WidgetEditorProps) {
+  const [widgets, setWidgets] = useState<ScreenWidget[]>(screen.widgets ?? []);
+  const [newType, setNewType] = useState<WidgetType>('digital_clock');
+  const [saving, setSaving] = useState(false);
+
+  const timeZones = useMemo(() => {
+    try {
+      return Intl.supportedValuesOf('timeZone');
+    } catch {
+      return [];
+    }
+  }, []);
+
+  const updateWidget = (id: string, patch: Partial<ScreenWidget>) => {
+    setWidgets(prev => prev.map(widget => (widget.id === id ? { ...widget, ...patch } : widget)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    const { error } = await supabase
+      .from('screens')
+      .update({ widgets })
+      .eq('id', screen.id);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save widgets');
+    } else {
+      toast.success(`Widgets saved for ${screen.name}`);
+      onChange();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-2 pl-6">
+      <div className="relative aspect-video w-full overflow-hidden rounded-md bg-linear-to-br from-slate-700 to-slate-900 [container-type:size]">
+        <WidgetOverlay widgets={widgets} />
+      </div>
+
+      {widgets.map(widget => (
+        <WidgetFields
+          key={widget.id}
+          widget={widget}
+          onChange={(patch) => updateWidget(widget.id, patch)}
+          onRemove={() => setWidgets(prev => prev.filter(w => w.id !== widget.id))}
+        />
+      ))}
+
+      <datalist id="widget-time-zones">
+        {timeZones.map(zone => (
+          <option key={zone} value={zone} />
+        ))}
+      </datalist>
+
+      <div className="flex gap-2">
+        <select value={newType} onChange={(e) => setNewType(e.target.value as WidgetType)} className={SELECT_CLASS}>
+          {WIDGET_TYPES.map(t => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <Button size="sm" variant="secondary" className="h-7 shrink-0 text-xs" onClick={() => setWidgets(prev => [...prev, createWidget(newType)])}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" className="h-7 text-xs" onClick={save} disabled={saving}>
+          {saving ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+          Save Widgets
+        </Button>
+      </div>
+    </div>
+  );
+}
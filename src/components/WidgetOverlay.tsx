@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { formatCountdown, getZonedParts, isValidTimeZone } from '../lib/widgets';
+import type { ScreenWidget, WidgetPosition } from '../types';
+
+const POSITION_CLASSES: Record<WidgetPosition, string> = {
+  'top-left': 'top-[3cqh] left-[3cqh] items-start',
+  'top-center': 'top-[3cqh] left-1/2 -translate-x-1/2 items-center',
+  'top-right': 'top-[3cqh] right-[3cqh] items-end',
+  'bottom-left': 'bottom-[3cqh] left-[3cqh] items-start',
+  'bottom-center': 'bottom-[3cqh] left-1/2 -translate-x-1/2 items-center',
+  'bottom-right': 'bottom-[3cqh] right-[3cqh] items-end',
+};
+
+// Formats in the widget's own zone/locale; a typo in either falls back instead of crashing the display
+function formatForWidget(date: Date, widget: ScreenWidget, options: Intl.DateTimeFormatOptions): string {
+  const timeZone = isValidTimeZone(widget.time_zone) ? widget.time_zone : 'UTC';
+  try {
+    return new Intl.DateTimeFormat(widget.locale || undefined, { ...options, timeZone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(date);
+  }
+}
+
+function AnalogClock({ widget, now }: { widget: ScreenWidget; now: Date }) {
+  const { hours, minutes, seconds } = getZonedParts(now, isValidTimeZone(widget.time_zone) ? widget.time_zone : 'UTC');
+  const hand = (angle: number, length: number, width: number) => (
+    <line
+      x1="50"
+      y1="50"
+      x2={50 + length * Math.sin((angle * Math.PI) / 180)}
+      y2={50 - length * Math.cos((angle * Math.PI) / 180)}
+      stroke={widget.text_color}
+      strokeWidth={width}
+      strokeLinecap="round"
+    />
+  );
+
+  return (
+    <svg viewBox="0 0 100 100" style={{ width: `${widget.size * 4}cqh`, height: `${widget.size * 4}cqh` }}>
+      <circle cx="50" cy="50" r="48" fill={widget.background_color ?? 'none'} stroke={widget.text_color} strokeWidth="2" />
+      {Array.from({ length: 12 }, (_, i) => (
+        <line
+          key={i}
+          x1="50"
+          y1="8"
+          x2="50"
+          y2={i % 3 === 0 ? 16 : 12}
+          stroke={widget.text_color}
+          strokeWidth={i % 3 === 0 ? 3 : 1.5}
+          transform={`rotate(${i * 30} 50 50)`}
+        />
+      ))}
+      {hand((hours % 12) * 30 + minutes * 0.5, 24, 4)}
+      {hand(minutes * 6 + seconds * 0.1, 34, 3)}
+      {widget.show_seconds && hand(seconds * 6, 38, 1)}
+      <circle cx="50" cy="50" r="2.5" fill={widget.text_color} />
+    </svg>
+  );
+}
+
+function WidgetContent({ widget, now }: { widget: ScreenWidget; now: Date }) {
+  switch (widget.type) {
+    case 'digital_clock':
+      return (
+        <>
+          {formatForWidget(now, widget, {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: widget.show_seconds ? '2-digit' : undefined,
+            hour12: widget.hour12,
+          })}
+        </>
+      );
+    case 'date':
+      return <>{formatForWidget(now, widget, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}</>;
+    case 'countdown': {
+      const remaining = widget.target ? new Date(widget.target).getTime() - now.getTime() : 0;
+      return (
+        <div className="flex flex-col items-center">
+          {widget.label && <span className="text-[0.5em] font-medium opacity-80">{widget.label}</span>}
+          <span>{remaining > 0 ? formatCountdown(remaining) : 'Now'}</span>
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+interface WidgetOverlayProps {
+  widgets: ScreenWidget[];
+}
+
+// Clock/date/countdown overlays. Sizes are in container units of the nearest size container
+// (the display's content area, or the preview box in the settings), so previews match the TV.
+export default function WidgetOverlay({ widgets }: WidgetOverlayProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (widgets.length === 0) return;
+    const tick = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(tick);
+  }, [widgets.length]);
+
+  if (widgets.length === 0) return null;
+
+  const positions = Array.from(new Set(widgets.map(widget => widget.position)));
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-40">
+      {positions.map(position => (
+        <div key={position} className={`absolute flex flex-col gap-[1.5cqh] ${POSITION_CLASSES[position] ?? POSITION_CLASSES['top-right']}`}>
+          {widgets.filter(widget => widget.position === position).map(widget => (
+            widget.type === 'analog_clock' ? (
+              <AnalogClock key={widget.id} widget={widget} now={now} />
+            ) : (
+              <div
+                key={widget.id}
+                className={`whitespace-nowrap rounded-[1cqh] px-[1.5cqh] py-[0.75cqh] font-semibold leading-tight tabular-nums ${
+                  widget.background_color ? '' : '[text-shadow:0_0.2cqh_1cqh_rgb(0_0_0/0.7)]'
+                }`}
+                style={{
+                  fontSize: `${widget.size}cqh`,
+                  color: widget.text_color,
+                  backgroundColor: widget.background_color ?? undefined,
+                }}
+              >
+                <WidgetContent widget={widget} now={now} />
+              </div>
+            )
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { matchesDayparts } from './schedule';
+import type { Announcement, DaypartRule } from '../types';
+
+// How long a video with sound takes to fade out when the slide changes
+export const AUDIO_FADE_MS = 800;
+
+export interface ScreenAudio {
+  volume: number; // Master volume in percent
+  quietHours: DaypartRule[] | null;
+}
+
+export const DEFAULT_SCREEN_AUDIO: ScreenAudio = { volume: 100, quietHours: null };
+
+// Browsers refuse to start a video with sound until someone has interacted with the page.
+// The first refusal is reported here so the display can ask for a tap/key press once.
+let audioBlocked = false;
+const blockedListeners = new Set<(blocked: boolean) => void>();
+
+function setAudioBlocked(blocked: boolean) {
+  if (audioBlocked === blocked) return;
+  audioBlocked = blocked;
+  blockedListeners.forEach(listener => listener(blocked));
+}
+
+export function isAudioBlocked(): boolean {
+  return audioBlocked;
+}
+
+export function reportAudioBlocked() {
+  setAudioBlocked(true);
+}
+
+// Must be called from a user gesture (click, key press); afterwards the page may play sound
+export function unlockAudio() {
+  setAudioBlocked(false);
+}
+
+// Calls `onChange` whenever sound becomes blocked or is unlocked. Returns an unsubscribe function.
+export function subscribeToAudioBlocked(onChange: (blocked: boolean) => void): () => void {
+  blockedListeners.add(onChange);
+  return () => {
+    blockedListeners.delete(onChange);
+  };
+}
+
+// The screen's volume as 0–1, or 0 during its quiet hours
+export function getMasterVolume(audio: ScreenAudio, now: Date = new Date()): number {
+  if (audio.quietHours?.length && matchesDayparts(audio.quietHours, now)) return 0;
+  return Math.min(100, Math.max(0, audio.volume)) / 100;
+}
+
+// The volume (0–1) an item plays at, or 0 when it should be muted
+export function getItemVolume(item: Pick<Announcement, 'audio_enabled' | 'volume'>, masterVolume: number): number {
+  if (!item.audio_enabled) return 0;
+  return (Math.min(100, Math.max(0, item.volume ?? 100)) / 100) * masterVolume;
+}
+
+// Ramps a playing video down to silence, then pauses it. Returns a function that cancels the fade.
+export function fadeOutAndPause(video: HTMLVideoElement, durationMs: number = AUDIO_FADE_MS): () => void {
+  const startVolume = video.volume;
+  const startedAt = Date.now();
+
+  const timer = setInterval(() => {
+    const progress = Math.min(1, (Date.now() - startedAt) / durationMs);
+    video.volume = startVolume * (1 - progress);
+
+    if (progress >= 1) {
+      clearInterval(timer);
+      video.pause();
+    }
+  }, 50);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import type { DeviceCommand, DeviceCommandStatus, DeviceCommandType } from '../types';
+
+// A command that hasn't reached its device within this time is dropped, so a display that
+// comes back online hours later doesn't suddenly blank itself or skip slides.
+// The database stamps `expires_at` (see device_commands in db/schema.sql); this must match it.
+export const COMMAND_TTL_MS = 60 * 1000;
+// Backup for realtime on the device; short enough to pick up every command before it expires
+export const COMMAND_POLL_MS = 15 * 1000;
+// How often the admin panel checks whether a command was acknowledged
+const ACK_POLL_MS = 2 * 1000;
+
+export const COMMAND_LABELS: Record<DeviceCommandType, string> = {
+  reload: 'Reload',
+  goto: 'Jump to slide',
+  next: 'Next slide',
+  previous: 'Previous slide',
+  pause: 'Pause',
+  resume: 'Resume',
+  blank: 'Blank screen',
+  unblank: 'Unblank screen',
+  identify: 'Identify',
+};
+
+export async function sendDeviceCommand(
+  deviceId: string,
+  command: DeviceCommandType,
+  payload: DeviceCommand['payload'] = {}
+): Promise<DeviceCommand> {
+  const { data, error } = await supabase
+    .from('device_commands')
+    .insert([{ device_id: deviceId, command, payload }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Resolves with the device's answer, or 'expired' if it never picked the command up.
+// Times out by this computer's own clock, which may not agree with the server's `expires_at`.
+export async function waitForAcknowledgement(command: DeviceCommand): Promise<DeviceCommandStatus | 'expired'> {
+  const deadline = Date.now() + COMMAND_TTL_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, ACK_POLL_MS));
+
+    const { data, error } = await supabase
+      .from('device_commands')
+      .select('status')
+      .eq('id', command.id)
+      .maybeSingle();
+
+    if (error) continue;
+    if (!data) return 'expired'; // Deleted along with its device
+    if (data.status !== 'pending') return data.status;
+  }
+
+  return 'expired';
+}
+
+// Commands for this device that are still waiting and haven't expired (by the server's clock),
+// oldest first. Throws on network/API errors.
+export async function fetchPendingCommands(deviceId: string): Promise<DeviceCommand[]> {
+  const { data, error } = await supabase.rpc('get_pending_commands', { device: deviceId });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Calls `onCommand` for every command sent to this device while connected. Returns an unsubscribe function.
+export function subscribeToCommands(deviceId: string, onCommand: (command: DeviceCommand) => void): () => void {
+  const channel = supabase
+    .channel(`device-commands-${deviceId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'device_commands', filter: `device_id=eq.${deviceId}` },
+      (change) => onCommand(change.new as DeviceCommand)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export async function acknowledgeCommand(id: string, status: Exclude<DeviceCommandStatus, 'pending'>) {
+  const { error } = await supabase
+    .from('device_commands')
+    .update({ status }) // acknowledged_at is stamped by the database
+    .eq('id', id);
+
+  if (error) console.warn('Could not acknowledge command', error);
+}
@@ -0,0 +1,27 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Text starting with one of these is run as a formula by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180 quoting: fields with commas, quotes or line breaks are wrapped in quotes. Text that
+// would start a formula (titles and names are typed in by admins) gets a leading ' first.
+function escapeCsvValue(value: CsvValue): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function downloadCsv(fileName: string, csv: string) {
+  // The BOM makes Excel read the file as UTF-8
+  const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away cancels the download in some browsers (older Safari and Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
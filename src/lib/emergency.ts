@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+import type { EmergencyAlert } from '../types';
+
+// Alerts must not wait for the normal refresh interval; this short poll backs up realtime
+export const EMERGENCY_POLL_MS = 10 * 1000;
+
+const STORAGE_KEY = 'emergency-alert';
+
+export type EmergencyAlertDraft = Pick<EmergencyAlert, 'title' | 'message' | 'background_color' | 'text_color' | 'flashing'>;
+
+export const EMERGENCY_TEMPLATES: { id: string; label: string; alert: EmergencyAlertDraft }[] = [
+  {
+    id: 'evacuation',
+    label: 'Evacuation',
+    alert: {
+      title: 'Evacuate the building',
+      message: 'Leave by the nearest exit and go to the assembly point. Do not use the lifts.',
+      background_color: '#dc2626',
+      text_color: '#ffffff',
+      flashing: true,
+    },
+  },
+  {
+    id: 'lockdown',
+    label: 'Lockdown',
+    alert: {
+      title: 'Lockdown',
+      message: 'Go to the nearest room, lock the door and stay away from windows. Wait for further instructions.',
+      background_color: '#7f1d1d',
+      text_color: '#ffffff',
+      flashing: false,
+    },
+  },
+  {
+    id: 'shelter',
+    label: 'Shelter in place',
+    alert: {
+      title: 'Shelter in place',
+      message: 'Stay indoors, close windows and doors, and wait for the all-clear.',
+      background_color: '#c2410c',
+      text_color: '#ffffff',
+      flashing: false,
+    },
+  },
+  {
+    id: 'weather',
+    label: 'Severe weather',
+    alert: {
+      title: 'Severe weather warning',
+      message: 'Stay inside and keep away from windows until the warning is lifted.',
+      background_color: '#facc15',
+      text_color: '#111827',
+      flashing: false,
+    },
+  },
+];
+
+// The alert currently in force, or null. Throws on network/API errors.
+export async function fetchActiveAlert(): Promise<EmergencyAlert | null> {
+  const { data, error } = await supabase
+    .from('emergency_alerts')
+    .select('*')
+    .eq('active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Calls `onChange` as soon as an alert is raised or cleared. Returns an unsubscribe function.
+export function subscribeToEmergencyAlerts(onChange: () => void): () => void {
+  const channel = supabase
+    .channel('emergency-alerts')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'emergency_alerts' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// The last known alert survives a reload, so a display that restarts offline keeps showing it
+export function rememberAlert(alert: EmergencyAlert | null) {
+  try {
+    if (alert) localStorage.setItem(STORAGE_KEY, JSON.stringify(alert));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn('Could not remember emergency alert', err);
+  }
+}
+
+export function loadRememberedAlert(): EmergencyAlert | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
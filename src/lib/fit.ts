@@ -0,0 +1,36 @@
+import type React from 'react';
+import type { Announcement, FitMode } from '../types';
+
+export const DEFAULT_FIT_COLOR = '#000000';
+
+export const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'contain', label: 'Fit (black bars)' },
+  { value: 'blur', label: 'Fit on blurred background' },
+  { value: 'color', label: 'Fit on a colour' },
+  { value: 'cover', label: 'Fill (crop)' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+type FitItem = Pick<Announcement, 'fit_mode' | 'fit_color' | 'focal_x' | 'focal_y'>;
+
+export function getFitMode(item: Pick<Announcement, 'fit_mode'>): FitMode {
+  return item.fit_mode || 'contain';
+}
+
+// Classes for the <img>/<video> itself; the letterboxed modes only differ in what is behind it
+export function getFitClassName(item: FitItem): string {
+  switch (getFitMode(item)) {
+    case 'cover':
+      return 'h-full w-full object-cover';
+    case 'stretch':
+      return 'h-full w-full object-fill';
+    default:
+      return 'relative max-h-full max-w-full object-contain';
+  }
+}
+
+// Keeps the chosen spot in view when the picture is cropped
+export function getFocalStyle(item: FitItem): React.CSSProperties | undefined {
+  if (getFitMode(item) !== 'cover') return undefined;
+  return { objectPosition: `${item.focal_x ?? 50}% ${item.focal_y ?? 50}%` };
+}
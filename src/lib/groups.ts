@@ -0,0 +1,43 @@
+import type { Announcement } from '../types';
+
+export interface SlideGroup {
+  id: string; // Sortable id, distinct from the item ids
+  groupId: string;
+  title: string;
+  items: Announcement[];
+}
+
+// One entry of the admin list: a single item, or all pages of an imported PDF
+export type ListUnit = { id: string; item: Announcement } | SlideGroup;
+
+export function isSlideGroup(unit: ListUnit): unit is SlideGroup {
+  return 'groupId' in unit;
+}
+
+// Collapses the pages of each group into one unit at the position of its first page,
+// so a group always moves as a block
+export function toListUnits(items: Announcement[]): ListUnit[] {
+  const units: ListUnit[] = [];
+  const groups = new Map<string, SlideGroup>();
+
+  for (const item of items) {
+    if (!item.group_id) {
+      units.push({ id: item.id, item });
+      continue;
+    }
+
+    let group = groups.get(item.group_id);
+    if (!group) {
+      group = { id: `group:${item.group_id}`, groupId: item.group_id, title: item.group_title || item.title, items: [] };
+      groups.set(item.group_id, group);
+      units.push(group);
+    }
+    group.items.push(item);
+  }
+
+  return units;
+}
+
+export function flattenListUnits(units: ListUnit[]): Announcement[] {
+  return units.flatMap(unit => (isSlideGroup(unit) ? unit.items : [unit.item]));
+}
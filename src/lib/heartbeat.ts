@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+import { version } from '../../package.json';
+import type { DeviceError } from '../types';
+
+// Each display reports in on this interval; the dashboard calls a device offline after a few missed beats
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+export const OFFLINE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+const DEVICE_ID_KEY = 'display-device-id';
+const ERRORS_KEY = 'display-recent-errors';
+const MAX_RECENT_ERRORS = 10;
+
+export const APP_VERSION = version;
+
+export interface DeviceStatus {
+  current: { id: string; title: string } | null;
+  wakeLock: boolean;
+  paused: boolean;
+  blanked: boolean;
+  audioBlocked: boolean;
+}
+
+// A stable id for this browser, so reloads and screen changes keep reporting as the same device
+export function getDeviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    // Without storage the device gets a new identity on every reload, which is still better than none
+    return crypto.randomUUID();
+  }
+}
+
+function readErrors(): DeviceError[] {
+  try {
+    const raw = localStorage.getItem(ERRORS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Keeps the last few errors on the device; they are sent with the next heartbeat
+export function noteDisplayError(message: string) {
+  const errors = [{ at: new Date().toISOString(), message }, ...readErrors()].slice(0, MAX_RECENT_ERRORS);
+  try {
+    localStorage.setItem(ERRORS_KEY, JSON.stringify(errors));
+  } catch (err) {
+    console.warn('Could not save display error', err);
+  }
+}
+
+// When content was last fetched successfully. Errors from before that are kept in the history
+// but no longer reported as the device's current error.
+let lastSuccessAt: string | null = null;
+
+export function noteContentLoaded() {
+  lastSuccessAt = new Date().toISOString();
+}
+
+function getResolution(): string {
+  const ratio = window.devicePixelRatio || 1;
+  return `${window.screen.width}x${window.screen.height} screen, ${window.innerWidth}x${window.innerHeight} window @${ratio}x`;
+}
+
+// The beat of the running display, so a status change can be reported without waiting for the next one
+let beatNow: (() => void) | null = null;
+
+export function sendHeartbeatNow() {
+  beatNow?.();
+}
+
+// Reports this device's status until stopped. `getStatus` is read at every beat. Returns a stop function.
+export function startHeartbeats(getStatus: () => DeviceStatus, screenSlug: string | null): () => void {
+  const id = getDeviceId();
+  const startedAt = new Date().toISOString();
+
+  const beat = async () => {
+    if (!navigator.onLine) return;
+
+    const status = getStatus();
+    const errors = readErrors();
+    const latest = errors[0] && (!lastSuccessAt || errors[0].at > lastSuccessAt) ? errors[0] : null;
+    const { error } = await supabase.from('display_devices').upsert({
+      id,
+      screen_slug: screenSlug,
+      current_announcement_id: status.current?.id ?? null,
+      current_title: status.current?.title ?? null,
+      app_version: APP_VERSION,
+      resolution: getResolution(),
+      user_agent: navigator.userAgent,
+      wake_lock: status.wakeLock,
+      paused: status.paused,
+      blanked: status.blanked,
+      audio_blocked: status.audioBlocked,
+      last_error: latest?.message ?? null,
+      recent_errors: errors,
+      started_at: startedAt,
+      // last_seen_at is stamped by the database
+    });
+
+    if (error) console.warn('Could not send heartbeat', error);
+  };
+
+  beat();
+  beatNow = beat;
+  const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  window.addEventListener('online', beat);
+
+  return () => {
+    if (beatNow === beat) beatNow = null;
+    clearInterval(timer);
+    window.removeEventListener('online', beat);
+  };
+}
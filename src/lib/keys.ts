@@ -0,0 +1,65 @@
+// What a key on a keyboard or TV remote does on the display
+export type KeyAction =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'toggle-pause' }
+  | { type: 'jump'; index: number } // 0-based position among the main zone's playable slides
+  | { type: 'info' };
+
+// Back on TV remotes: LG webOS sends keyCode 461, Samsung Tizen 10009
+const BACK_KEY_CODES = [461, 10009];
+const BACK_KEYS = ['Escape', 'Backspace', 'GoBack', 'BrowserBack', 'XF86Back'];
+
+// How long the info overlay stays up after Back is pressed
+export const INFO_OVERLAY_MS = 10 * 1000;
+
+// Focused elements that handle keys themselves: typing goes to form fields, and Enter/Space
+// activate buttons and links (the carousel controls, the pairing screen)
+function isFormField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+function isInteractive(target: EventTarget | null): boolean {
+  return isFormField(target) || (target instanceof HTMLElement && ['BUTTON', 'A'].includes(target.tagName));
+}
+
+export function getKeyAction(event: KeyboardEvent): KeyAction | null {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+  if (isFormField(event.target)) return null;
+
+  switch (event.key) {
+    case 'ArrowRight':
+    case 'MediaTrackNext':
+    case 'PageDown':
+      return { type: 'next' };
+    case 'ArrowLeft':
+    case 'MediaTrackPrevious':
+    case 'PageUp':
+      return { type: 'previous' };
+    case 'Enter':
+    case ' ':
+      return isInteractive(event.target) ? null : { type: 'toggle-pause' };
+    case 'MediaPlayPause':
+    case 'MediaPlay':
+    case 'MediaPause':
+      return { type: 'toggle-pause' };
+  }
+
+  // 1–9 jump to that slide, 0 to the tenth
+  if (/^[0-9]$/.test(event.key)) {
+    const digit = Number(event.key);
+    return { type: 'jump', index: digit === 0 ? 9 : digit - 1 };
+  }
+
+  if (BACK_KEYS.includes(event.key) || BACK_KEY_CODES.includes(event.keyCode)) {
+    return { type: 'info' };
+  }
+
+  return null;
+}
+
+// Turns the idle timeout setting into milliseconds; null when a remote pause should never end by itself
+export function getResumeDelayMs(minutes: number): number | null {
+  return minutes > 0 ? minutes * 60 * 1000 : null;
+}
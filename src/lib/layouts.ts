@@ -0,0 +1,60 @@
+import type React from 'react';
+import type { LayoutZone } from '../types';
+
+// The zone that plays the screen's own playlist / assigned items
+export const MAIN_ZONE_KEY = 'main';
+
+// Starting points for new layouts; zones can be resized afterwards
+export const LAYOUT_TEMPLATES: { name: string; zones: LayoutZone[] }[] = [
+  {
+    name: 'Main + Sidebar',
+    zones: [
+      { key: MAIN_ZONE_KEY, name: 'Main', x: 0, y: 0, width: 75, height: 100 },
+      { key: 'sidebar', name: 'Sidebar', x: 75, y: 0, width: 25, height: 100 },
+    ],
+  },
+  {
+    name: 'Main + Footer',
+    zones: [
+      { key: MAIN_ZONE_KEY, name: 'Main', x: 0, y: 0, width: 100, height: 85 },
+      { key: 'footer', name: 'Footer', x: 0, y: 85, width: 100, height: 15 },
+    ],
+  },
+  {
+    name: 'Main + Sidebar + Footer',
+    zones: [
+      { key: MAIN_ZONE_KEY, name: 'Main', x: 0, y: 0, width: 75, height: 85 },
+      { key: 'sidebar', name: 'Sidebar', x: 75, y: 0, width: 25, height: 85 },
+      { key: 'footer', name: 'Footer', x: 0, y: 85, width: 100, height: 15 },
+    ],
+  },
+  {
+    name: 'Split Screen',
+    zones: [
+      { key: MAIN_ZONE_KEY, name: 'Left', x: 0, y: 0, width: 50, height: 100 },
+      { key: 'right', name: 'Right', x: 50, y: 0, width: 50, height: 100 },
+    ],
+  },
+];
+
+export function getZoneStyle(zone: LayoutZone): React.CSSProperties {
+  return {
+    left: `${zone.x}%`,
+    top: `${zone.y}%`,
+    width: `${zone.width}%`,
+    height: `${zone.height}%`,
+  };
+}
+
+// Keeps a zone on screen after its position or size was edited by hand
+export function clampZone(zone: LayoutZone): LayoutZone {
+  const x = Math.min(Math.max(zone.x, 0), 95);
+  const y = Math.min(Math.max(zone.y, 0), 95);
+  return {
+    ...zone,
+    x,
+    y,
+    width: Math.min(Math.max(zone.width, 5), 100 - x),
+    height: Math.min(Math.max(zone.height, 5), 100 - y),
+  };
+}
@@ -0,0 +1,31 @@
+import type { Announcement } from '../types';
+
+export function isVideoUrl(url: string | null | undefined): boolean {
+  return !!url && /\.(mp4|webm|ogg|mov)$/i.test(url);
+}
+
+// Every uploaded file an announcement needs on screen (cached offline, removed on delete)
+export function getMediaUrls(item: Announcement): string[] {
+  return [item.image_url, item.text_content?.background_image_url, item.web_content?.fallback_image_url]
+    .filter((url): url is string => !!url);
+}
+
+// Videos in "until end" / "repeat" mode advance on their `ended` event instead of a timer
+export function playsToEnd(item: Announcement): boolean {
+  return isVideoUrl(item.image_url) && item.playback_mode !== 'duration';
+}
+
+export function getTargetPlays(item: Announcement): number {
+  return item.playback_mode === 'repeat' ? Math.max(item.play_count || 1, 1) : 1;
+}
+
+// Reads the real length of a video file (in whole seconds) before it is uploaded
+export function readVideoDuration(src: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(Math.ceil(video.duration));
+    video.onerror = () => reject(new Error('Could not read video metadata'));
+    video.src = src;
+  });
+}
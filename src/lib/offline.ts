@@ -0,0 +1,67 @@
+import type { TickerStyle } from './ticker';
+import type { ScreenAudio } from './audio';
+import type { Announcement, Layout, ScreenRotation, ScreenWidget, TickerMessage } from '../types';
+
+const MANIFEST_KEY_PREFIX = 'display_board_manifest';
+
+// Last playlist that was fetched successfully, used when the network is down
+export interface CachedManifest {
+  announcements: Announcement[];
+  layout?: Layout | null; // Missing in manifests saved before layouts existed
+  zones?: Record<string, Announcement[]>;
+  widgets?: ScreenWidget[];
+  ticker?: TickerMessage[];
+  tickerStyle?: TickerStyle;
+  rotation?: ScreenRotation;
+  audio?: ScreenAudio;
+  refreshInterval: number;
+  resumeAfterMinutes?: number;
+  savedAt: string;
+}
+
+const manifestKey = (screenSlug: string | null) => `${MANIFEST_KEY_PREFIX}:${screenSlug ?? 'all'}`;
+
+export function saveManifest(screenSlug: string | null, manifest: Omit<CachedManifest, 'savedAt'>) {
+  try {
+    localStorage.setItem(manifestKey(screenSlug), JSON.stringify({ ...manifest, savedAt: new Date().toISOString() }));
+  } catch (err) {
+    console.warn('Could not save offline manifest', err);
+  }
+}
+
+export function loadManifest(screenSlug: string | null): CachedManifest | null {
+  try {
+    const raw = localStorage.getItem(manifestKey(screenSlug));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function registerDisplayServiceWorker() {
+  // Vite serves unbundled modules in dev; caching those would only get in the way
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.register('/sw.js').catch((err) => {
+    console.warn('Service worker registration failed', err);
+  });
+
+  // This page and its bundles were loaded before the worker took over; hand it their URLs to cache
+  navigator.serviceWorker.ready.then((registration) => {
+    const assets = performance.getEntriesByType('resource')
+      .map((entry) => new URL(entry.name))
+      .filter((url) => url.origin === location.origin && (url.pathname.startsWith('/_astro/') || url.pathname === '/favicon.png'))
+      .map((url) => url.href);
+
+    registration.active?.postMessage({ type: 'PRECACHE_SHELL', urls: [location.pathname, ...new Set(assets)] });
+  });
+}
+
+// Ask the service worker to cache exactly these media files (and drop everything else)
+export async function syncMediaCache(urls: string[]) {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // On the very first load the worker is still installing; wait for it rather than drop the list
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'SYNC_MEDIA', urls: Array.from(new Set(urls)) });
+}
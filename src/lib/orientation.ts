@@ -0,0 +1,44 @@
+import type React from 'react';
+import type { Announcement, OrientationTarget, ScreenOrientation, ScreenRotation } from '../types';
+
+export const ROTATIONS: { value: ScreenRotation; label: string }[] = [
+  { value: 0, label: 'Landscape (0°)' },
+  { value: 90, label: 'Portrait (90°)' },
+  { value: 180, label: 'Landscape, upside down (180°)' },
+  { value: 270, label: 'Portrait (270°)' },
+];
+
+export const ORIENTATION_TARGETS: { value: OrientationTarget; label: string }[] = [
+  { value: 'any', label: 'Any screen' },
+  { value: 'landscape', label: 'Landscape screens only' },
+  { value: 'portrait', label: 'Portrait screens only' },
+];
+
+function isSideways(rotation: ScreenRotation): boolean {
+  return rotation === 90 || rotation === 270;
+}
+
+// The shape of the picture the viewer sees, once the rotation is applied to the browser window
+export function getScreenOrientation(rotation: ScreenRotation): ScreenOrientation {
+  const landscapeWindow = window.innerWidth >= window.innerHeight;
+  return landscapeWindow !== isSideways(rotation) ? 'landscape' : 'portrait';
+}
+
+export function fitsOrientation(item: Announcement, orientation: ScreenOrientation): boolean {
+  return !item.orientation || item.orientation === 'any' || item.orientation === orientation;
+}
+
+// Turns the display's surface so that it fills the window after rotating (nothing to do at 0°)
+export function getRotationStyle(rotation: ScreenRotation): React.CSSProperties | undefined {
+  if (!rotation) return undefined;
+  const sideways = isSideways(rotation);
+
+  return {
+    inset: 'auto',
+    top: '50%',
+    left: '50%',
+    width: sideways ? '100vh' : '100vw',
+    height: sideways ? '100vw' : '100vh',
+    transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+  };
+}
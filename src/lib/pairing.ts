@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+
+// A paired TV keeps its own token (and the screen it was paired to) instead of the admin password flag
+const DISPLAY_TOKEN_KEY = 'display_token';
+const PAIRED_SCREEN_KEY = 'display_paired_screen';
+
+// How often an unpaired TV asks whether an admin has entered its code yet
+export const PAIRING_POLL_MS = 3 * 1000;
+
+export interface PairingCode {
+  code: string;
+  expires_at: string;
+}
+
+export interface DisplayPairing {
+  name: string | null;
+  screen_slug: string | null;
+}
+
+export function getDisplayToken(): string | null {
+  try {
+    return localStorage.getItem(DISPLAY_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// The screen this TV was paired to; used when the URL doesn't name one
+export function getPairedScreenSlug(): string | null {
+  try {
+    return localStorage.getItem(PAIRED_SCREEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function rememberPairing(token: string, screenSlug: string | null) {
+  try {
+    localStorage.setItem(DISPLAY_TOKEN_KEY, token);
+    if (screenSlug) localStorage.setItem(PAIRED_SCREEN_KEY, screenSlug);
+    else localStorage.removeItem(PAIRED_SCREEN_KEY);
+  } catch (err) {
+    console.warn('Could not remember display pairing', err);
+  }
+}
+
+export function forgetPairing() {
+  try {
+    localStorage.removeItem(DISPLAY_TOKEN_KEY);
+    localStorage.removeItem(PAIRED_SCREEN_KEY);
+  } catch (err) {
+    console.warn('Could not forget display pairing', err);
+  }
+}
+
+// A fresh code for this device to show on screen. Throws on network/API errors.
+export async function requestPairingCode(deviceId: string): Promise<PairingCode> {
+  const { data, error } = await supabase.rpc('request_pairing_code', { device: deviceId });
+
+  if (error) throw error;
+  return data[0];
+}
+
+// The token, once an admin has entered the code; null while still waiting. Throws on network/API errors.
+export async function claimDisplayToken(deviceId: string, code: string): Promise<{ token: string; screen_slug: string | null } | null> {
+  const { data, error } = await supabase.rpc('claim_display_token', { device: deviceId, pairing_code: code });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// The pairing behind a token, or null if it was revoked. Throws on network/API errors.
+export async function verifyDisplayToken(token: string): Promise<DisplayPairing | null> {
+  const { data, error } = await supabase.rpc('verify_display_token', { display_token: token });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// Called by the admin panel. Returns false when the code is wrong or has expired.
+export async function pairDisplay(code: string, name: string, screenId: string | null): Promise<boolean> {
+  const { data, error } = await supabase.rpc('pair_display', {
+    pairing_code: code,
+    display_name: name,
+    target_screen: screenId,
+  });
+
+  if (error) throw error;
+  return !!data;
+}
+
+// Called by the admin panel; a revoked display keeps the screen it had. Throws on network/API errors.
+export async function setPairedDisplayScreen(displayId: string, screenId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('set_paired_display_screen', { display: displayId, target_screen: screenId });
+
+  if (error) throw error;
+}
+
+// Called by the admin panel. Revoking is final: the TV has to be paired again with a new code.
+export async function revokePairedDisplay(displayId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_paired_display', { display: displayId });
+
+  if (error) throw error;
+}
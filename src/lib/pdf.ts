@@ -0,0 +1,44 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Longest edge of the rendered slide images; enough for a crisp 1080p screen in either orientation
+export const PDF_SLIDE_EDGE = 1920;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+// pdf.js is large, so it's only fetched once someone actually imports a PDF
+export async function loadPdf(file: File): Promise<PDFDocumentProxy> {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  return pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+}
+
+// Renders one page (1-based) so that its longest edge is `maxEdge` pixels
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, maxEdge: number): Promise<Blob> {
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: maxEdge / Math.max(width, height) });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+
+  try {
+    await page.render({ canvas, viewport }).promise;
+  } finally {
+    page.cleanup();
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Could not render page ${pageNumber}`))),
+      'image/jpeg',
+      0.9,
+    );
+  });
+}
@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+import type { Announcement, PlayLog, PlayOutcome } from '../types';
+
+// Impressions are queued on the device and uploaded in batches. The queue lives in
+// localStorage, so nothing is lost across reloads or network outages.
+const QUEUE_KEY = 'play-log-queue';
+const BATCH_SIZE = 50;
+const FLUSH_INTERVAL_MS = 60 * 1000;
+// A display that is offline for weeks keeps only the most recent impressions
+const MAX_QUEUED = 5000;
+// Anything shorter was never really seen (e.g. a list refresh replacing the slide at once)
+const MIN_DURATION_MS = 500;
+
+export interface SlideImpression {
+  item: Announcement;
+  startedAt: number; // epoch ms
+  durationMs: number;
+  outcome: PlayOutcome;
+}
+
+function readQueue(): PlayLog[] {
+  try {
+    const raw = localStorage.getItem(QUEUE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(queue: PlayLog[]) {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue.slice(-MAX_QUEUED)));
+  } catch (err) {
+    console.warn('Could not save play logs', err);
+  }
+}
+
+export function recordImpression(impression: SlideImpression, screenSlug: string | null, zoneKey: string) {
+  if (impression.durationMs < MIN_DURATION_MS) return;
+
+  const queue = readQueue();
+  queue.push({
+    id: crypto.randomUUID(),
+    announcement_id: impression.item.id,
+    announcement_title: impression.item.title,
+    screen_slug: screenSlug,
+    zone_key: zoneKey,
+    started_at: new Date(impression.startedAt).toISOString(),
+    duration_ms: Math.round(impression.durationMs),
+    outcome: impression.outcome,
+  });
+  writeQueue(queue);
+
+  if (queue.length >= BATCH_SIZE) flushPlayLogs();
+}
+
+let flushing = false;
+
+// Uploads everything queued, one batch at a time. Failed batches stay queued for the next attempt.
+export async function flushPlayLogs() {
+  if (flushing || !navigator.onLine) return;
+  flushing = true;
+
+  try {
+    let batch = readQueue().slice(0, BATCH_SIZE);
+    while (batch.length > 0) {
+      const { error } = await supabase
+        .from('play_logs')
+        .upsert(batch, { onConflict: 'id', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      // Remove by id: more impressions may have been queued while uploading
+      const sent = new Set(batch.map(log => log.id));
+      const remaining = readQueue().filter(log => !sent.has(log.id));
+      writeQueue(remaining);
+      batch = remaining.slice(0, BATCH_SIZE);
+    }
+  } catch (err) {
+    console.warn('Could not upload play logs, will retry', err);
+  } finally {
+    flushing = false;
+  }
+}
+
+// Periodic uploads for as long as the display runs. Returns a stop function.
+export function startPlayLogUploads(): () => void {
+  flushPlayLogs();
+  const timer = setInterval(flushPlayLogs, FLUSH_INTERVAL_MS);
+  window.addEventListener('online', flushPlayLogs);
+
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('online', flushPlayLogs);
+  };
+}
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { MAIN_ZONE_KEY } from './layouts';
+import { getTickerStyle, type TickerStyle } from './ticker';
+import { DEFAULT_SCREEN_AUDIO, type ScreenAudio } from './audio';
+import type { Announcement, Layout, ScreenRotation, ScreenWidget, TickerMessage } from '../types';
+
+export interface DisplayContent {
+  screenFound: boolean;
+  announcements: Announcement[]; // The main zone (or the whole screen without a layout)
+  layout: Layout | null;
+  zones: Record<string, Announcement[]>; // Content of every other zone, by zone key
+  widgets: ScreenWidget[]; // Clock/date/countdown overlays of the screen
+  ticker: TickerMessage[]; // Active ticker messages, shared by all screens
+  tickerStyle: TickerStyle;
+  rotation: ScreenRotation; // How far the whole output is turned for a sideways-mounted TV
+  audio: ScreenAudio; // Master volume and quiet hours for videos with sound
+  refreshInterval: number | null; // null when settings could not be read
+  resumeAfterMinutes: number | null; // Idle time before a remote-paused display resumes; null when settings could not be read
+}
+
+// Active items of a playlist, in playlist order
+async function fetchPlaylistAnnouncements(playlistId: string): Promise<Announcement[]> {
+  const { data, error } = await supabase
+    .from('playlist_items')
+    .select('order_index, announcement:announcements(*)')
+    .eq('playlist_id', playlistId)
+    .order('order_index', { ascending: true });
+
+  if (error) throw error;
+  const rows = (data || []) as unknown as { announcement: Announcement | null }[];
+  return rows
+    .map(row => row.announcement)
+    .filter((item): item is Announcement => !!item && item.active);
+}
+
+// Loads what a display should play: the screen's playlist, the items assigned to the
+// screen, or every active item when no screen was requested. Screens with a layout also
+// get the playlist of each extra zone. Throws on network/API errors.
+export async function fetchDisplayContent(screenSlug: string | null): Promise<DisplayContent> {
+  // 1. Resolve the screen this display was opened for (if any)
+  let screenId: string | null = null;
+  let playlistId: string | null = null;
+  let layout: Layout | null = null;
+  let zonePlaylists: Record<string, string> = {};
+  let widgets: ScreenWidget[] = [];
+  let rotation: ScreenRotation = 0;
+  let audio = DEFAULT_SCREEN_AUDIO;
+
+  if (screenSlug) {
+    const { data: screen, error } = await supabase
+      .from('screens')
+      .select('id, playlist_id, zone_playlists, widgets, rotation, volume, quiet_hours, layout:layouts(*)')
+      .eq('slug', screenSlug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!screen) {
+      return { screenFound: false, announcements: [], layout: null, zones: {}, widgets: [], ticker: [], tickerStyle: getTickerStyle(null), rotation: 0, audio: DEFAULT_SCREEN_AUDIO, refreshInterval: null, resumeAfterMinutes: null };
+    }
+
+    screenId = screen.id;
+    playlistId = screen.playlist_id;
+    layout = (screen.layout as unknown as Layout | null) ?? null;
+    zonePlaylists = screen.zone_playlists || {};
+    widgets = screen.widgets || [];
+    rotation = screen.rotation ?? 0;
+    audio = { volume: screen.volume ?? 100, quietHours: screen.quiet_hours ?? null };
+  }
+
+  // 2. Fetch announcements
+  let announcements: Announcement[];
+
+  if (playlistId) {
+    announcements = await fetchPlaylistAnnouncements(playlistId);
+  } else {
+    let query = supabase
+      .from('announcements')
+      .select('*')
+      .eq('active', true);
+
+    if (screenId) {
+      query = query.contains('screen_ids', [screenId]);
+    }
+
+    const { data, error } = await query
+      .order('order_index', { ascending: true })
+      .order('created_at', { ascending: false })
+      .order('page_number', { ascending: true });
+
+    if (error) throw error;
+    announcements = data || [];
+  }
+
+  // 3. Fetch the other zones of the layout
+  const zones: Record<string, Announcement[]> = {};
+  for (const zone of layout?.zones ?? []) {
+    if (zone.key === MAIN_ZONE_KEY) continue;
+    const zonePlaylistId = zonePlaylists[zone.key];
+    zones[zone.key] = zonePlaylistId ? await fetchPlaylistAnnouncements(zonePlaylistId) : [];
+  }
+
+  // 4. Fetch ticker messages
+  const { data: ticker, error: tickerError } = await supabase
+    .from('ticker_messages')
+    .select('*')
+    .eq('active', true)
+    .order('order_index', { ascending: true });
+
+  if (tickerError) throw tickerError;
+
+  // 5. Fetch settings
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('refresh_interval, ticker_speed, ticker_text_color, ticker_background_color, ticker_position, resume_after_minutes')
+    .single();
+
+  return {
+    screenFound: true,
+    announcements,
+    layout,
+    zones,
+    widgets,
+    ticker: ticker || [],
+    tickerStyle: getTickerStyle(settings),
+    rotation,
+    audio,
+    refreshInterval: settings?.refresh_interval ?? null,
+    resumeAfterMinutes: settings?.resume_after_minutes ?? null,
+  };
+}
+
+// Applies a freshly fetched list on top of the running one. Unchanged items keep their
+// object identity so React leaves their elements (and any playing media) alone; returns
+// `prev` itself when nothing changed at all.
+export function mergeAnnouncements(prev: Announcement[], next: Announcement[]): Announcement[] {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  let changed = prev.length !== next.length;
+
+  const merged = next.map((item, index) => {
+    const old = prevById.get(item.id);
+    const result = old && JSON.stringify(old) === JSON.stringify(item) ? old : item;
+    if (result !== prev[index]) changed = true;
+    return result;
+  });
+
+  return changed ? merged : prev;
+}
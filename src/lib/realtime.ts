@@ -0,0 +1,31 @@
+import { supabase } from './supabase';
+
+// Tables whose changes can alter what a display is playing
+const DISPLAY_TABLES = ['announcements', 'settings', 'screens', 'playlist_items', 'layouts', 'ticker_messages'];
+
+// Calls `onChange` whenever display content changes in the database, and once more when the channel
+// comes back after dropping, since changes made meanwhile were never delivered. Returns an unsubscribe function.
+export function subscribeToDisplayChanges(onChange: () => void): () => void {
+  let channel = supabase.channel('display-content');
+
+  for (const table of DISPLAY_TABLES) {
+    channel = channel.on('postgres_changes', { event: '*', schema: 'public', table }, onChange);
+  }
+
+  let interrupted = false;
+  channel.subscribe((status) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`Realtime unavailable (${status}), relying on polling`);
+      interrupted = true;
+    } else if (status === 'CLOSED') {
+      interrupted = true;
+    } else if (status === 'SUBSCRIBED' && interrupted) {
+      interrupted = false;
+      onChange();
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,106 @@
+import type { Announcement, DaypartRule, TimeRange } from '../types';
+
+export type ScheduleStatus = 'scheduled' | 'live' | 'expired';
+
+type Schedulable = Pick<Announcement, 'publish_at' | 'expire_at' | 'daypart_rules'>;
+
+// Monday-first, matching how people read a week
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function getScheduleStatus(item: Pick<Schedulable, 'publish_at' | 'expire_at'>, now: Date = new Date()): ScheduleStatus {
+  if (item.publish_at && new Date(item.publish_at) > now) return 'scheduled';
+  if (item.expire_at && new Date(item.expire_at) <= now) return 'expired';
+  return 'live';
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+function rangeMatches(rule: DaypartRule, range: TimeRange, now: Date): boolean {
+  const day = now.getDay();
+  const minute = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(range.start);
+  const end = toMinutes(range.end);
+
+  if (start < end) {
+    return rule.days.includes(day) && minute >= start && minute < end;
+  }
+
+  // Overnight range (e.g. 22:00–02:00): the tail end belongs to the previous day
+  const previousDay = (day + 6) % 7;
+  return (rule.days.includes(day) && minute >= start)
+    || (rule.days.includes(previousDay) && minute < end);
+}
+
+export function matchesDayparts(rules: DaypartRule[] | null, now: Date = new Date()): boolean {
+  if (!rules || rules.length === 0) return true;
+  return rules.some((rule) => rule.ranges.some((range) => rangeMatches(rule, range, now)));
+}
+
+export function isWithinSchedule(item: Schedulable, now: Date = new Date()): boolean {
+  return getScheduleStatus(item, now) === 'live' && matchesDayparts(item.daypart_rules, now);
+}
+
+// Walks the list from `from` in the given direction (wrapping around) and returns
+// the first index that is currently playable, or -1 if nothing is.
+export function findPlayableIndex(
+  items: Schedulable[],
+  from: number,
+  step: 1 | -1,
+  now: Date = new Date()
+): number {
+  const count = items.length;
+  for (let i = 1; i <= count; i++) {
+    const idx = (((from + step * i) % count) + count) % count;
+    if (isWithinSchedule(items[idx], now)) return idx;
+  }
+  return -1;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// "Mon–Fri, 10:30–14:00; Sat, Sun, 09:00–12:00"
+export function summarizeDayparts(rules: DaypartRule[] | null): string {
+  if (!rules || rules.length === 0) return 'Any day, any time';
+
+  return rules.map((rule) => {
+    const ranges = rule.ranges.map((r) => `${r.start}–${r.end}`).join(' & ') || 'no hours';
+    return `${summarizeDays(rule.days)}, ${ranges}`;
+  }).join('; ');
+}
+
+function summarizeDays(days: number[]): string {
+  if (days.length === 7) return 'Every day';
+  if (days.length === 0) return 'No days';
+
+  // Group consecutive days (Monday-first) into runs like "Mon–Fri"
+  const runs: number[][] = [];
+  for (const day of WEEKDAY_ORDER) {
+    if (!days.includes(day)) continue;
+    const lastRun = runs[runs.length - 1];
+    const lastDay = lastRun?.[lastRun.length - 1];
+    if (lastRun && WEEKDAY_ORDER.indexOf(lastDay) === WEEKDAY_ORDER.indexOf(day) - 1) {
+      lastRun.push(day);
+    } else {
+      runs.push([day]);
+    }
+  }
+
+  return runs.map((run) => run.length >= 3
+    ? `${WEEKDAY_LABELS[run[0]]}–${WEEKDAY_LABELS[run[run.length - 1]]}`
+    : run.map((day) => WEEKDAY_LABELS[day]).join(', ')
+  ).join(', ');
+}
@@ -0,0 +1,18 @@
+import { getPairedScreenSlug } from './pairing';
+
+// Screen selected in the display URL, e.g. /?screen=lobby, or else the screen this TV was paired to
+export function getRequestedScreenSlug(): string | null {
+  return new URLSearchParams(window.location.search).get('screen') ?? getPairedScreenSlug();
+}
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function getScreenUrl(slug: string): string {
+  return `${window.location.origin}/?screen=${encodeURIComponent(slug)}`;
+}
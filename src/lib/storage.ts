@@ -0,0 +1,30 @@
+import { supabase } from './supabase';
+
+const BUCKET = 'announcements';
+
+// Public URL -> file name inside the bucket
+// URL format: .../storage/v1/object/public/announcements/[filename]
+export function storageFileName(url: string): string {
+  return url.split('/').pop() ?? '';
+}
+
+// Uploads under a random name and returns the public URL
+export async function uploadToStorage(file: File): Promise<string> {
+  const fileName = `${crypto.randomUUID()}.${file.name.split('.').pop()}`;
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(fileName, file, { cacheControl: '3600', upsert: false });
+
+  if (error) throw error;
+
+  return supabase.storage.from(BUCKET).getPublicUrl(fileName).data.publicUrl;
+}
+
+// Best effort: a file that can't be removed only wastes space, so failures are just logged
+export async function removeFromStorage(urls: string[]) {
+  const fileNames = urls.map(storageFileName).filter(Boolean);
+  if (fileNames.length === 0) return;
+
+  const { error } = await supabase.storage.from(BUCKET).remove(fileNames);
+  if (error) console.error('Error removing file from storage:', error);
+}
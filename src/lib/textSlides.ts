@@ -0,0 +1,17 @@
+import type { Announcement, TextSlideContent } from '../types';
+
+// Starting point for a new text slide
+export const DEFAULT_TEXT_CONTENT: TextSlideContent = {
+  headline: '',
+  body: '',
+  text_color: '#ffffff',
+  background_color: '#0f172a',
+  background_image_url: null,
+  headline_size: 12,
+  body_size: 6,
+  align: 'center',
+};
+
+export function isTextSlide(item: Pick<Announcement, 'content_type' | 'text_content'>): boolean {
+  return item.content_type === 'text' && !!item.text_content;
+}
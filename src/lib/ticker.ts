@@ -0,0 +1,24 @@
+import type { AppSettings, TickerPosition } from '../types';
+
+export interface TickerStyle {
+  speed: number; // Percent of the screen width per second, so it looks the same at any resolution
+  textColor: string;
+  backgroundColor: string;
+  position: TickerPosition;
+}
+
+export const DEFAULT_TICKER_STYLE: TickerStyle = {
+  speed: 8,
+  textColor: '#ffffff',
+  backgroundColor: '#b91c1c',
+  position: 'bottom',
+};
+
+export function getTickerStyle(settings: Partial<AppSettings> | null | undefined): TickerStyle {
+  return {
+    speed: settings?.ticker_speed ?? DEFAULT_TICKER_STYLE.speed,
+    textColor: settings?.ticker_text_color ?? DEFAULT_TICKER_STYLE.textColor,
+    backgroundColor: settings?.ticker_background_color ?? DEFAULT_TICKER_STYLE.backgroundColor,
+    position: settings?.ticker_position ?? DEFAULT_TICKER_STYLE.position,
+  };
+}
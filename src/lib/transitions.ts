@@ -0,0 +1,69 @@
+import type React from 'react';
+import type { Announcement, TransitionType } from '../types';
+
+export type SlideDirection = 'forward' | 'backward';
+
+export const DEFAULT_TRANSITION_MS = 1000;
+
+export const TRANSITIONS: { value: TransitionType; label: string }[] = [
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'push-up', label: 'Push up' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'none', label: 'None (cut)' },
+];
+
+// Keyframes live in styles/global.css. Going backward (e.g. handlePrev) mirrors the motion.
+const ANIMATIONS: Record<Exclude<TransitionType, 'none'>, Record<SlideDirection, { enter: string; exit: string }>> = {
+  fade: {
+    forward: { enter: 'fade-in', exit: 'fade-out' },
+    backward: { enter: 'fade-in', exit: 'fade-out' },
+  },
+  slide: {
+    forward: { enter: 'enter-from-right', exit: 'exit-to-left' },
+    backward: { enter: 'enter-from-left', exit: 'exit-to-right' },
+  },
+  'push-up': {
+    forward: { enter: 'enter-from-bottom', exit: 'exit-to-top' },
+    backward: { enter: 'enter-from-top', exit: 'exit-to-bottom' },
+  },
+  zoom: {
+    forward: { enter: 'zoom-enter-grow', exit: 'zoom-exit-grow' },
+    backward: { enter: 'zoom-enter-shrink', exit: 'zoom-exit-shrink' },
+  },
+  wipe: {
+    forward: { enter: 'wipe-from-right', exit: 'hold' },
+    backward: { enter: 'wipe-from-left', exit: 'hold' },
+  },
+};
+
+export function getTransitionDuration(item: Pick<Announcement, 'transition_duration'> | undefined): number {
+  return item?.transition_duration ?? DEFAULT_TRANSITION_MS;
+}
+
+// Both halves of a transition use the incoming item's effect and duration
+export function getTransitionStyle(
+  incoming: Pick<Announcement, 'transition_type' | 'transition_duration'>,
+  direction: SlideDirection,
+  phase: 'enter' | 'exit'
+): React.CSSProperties | null {
+  if (incoming.transition_type === 'none') return null;
+
+  const animations = ANIMATIONS[incoming.transition_type] ?? ANIMATIONS.fade;
+  const name = animations[direction][phase];
+  return { animation: `${name} ${getTransitionDuration(incoming)}ms ease-in-out both` };
+}
+
+const KEN_BURNS_ORIGINS = ['top left', 'top right', 'bottom left', 'bottom right', 'center'];
+
+// Pan-and-zoom across the whole time the image is on screen, drifting in a direction derived from its id
+export function getKenBurnsStyle(item: Pick<Announcement, 'id' | 'display_duration' | 'transition_duration'>): React.CSSProperties {
+  const hash = Array.from(item.id).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  const seconds = (item.display_duration || 10) + getTransitionDuration(item) / 1000;
+
+  return {
+    animation: `ken-burns ${seconds}s ease-out both`,
+    transformOrigin: KEN_BURNS_ORIGINS[hash % KEN_BURNS_ORIGINS.length],
+  };
+}
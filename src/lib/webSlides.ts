@@ -0,0 +1,37 @@
+import type { Announcement, WebSlideContent } from '../types';
+
+export const DEFAULT_WEB_CONTENT: WebSlideContent = {
+  url: '',
+  zoom: 100,
+  reload_interval: 0,
+  fallback_image_url: null,
+};
+
+export function isWebSlide(item: Pick<Announcement, 'content_type' | 'web_content'>): boolean {
+  return item.content_type === 'url' && !!item.web_content?.url;
+}
+
+// A same-origin page given both allow-scripts and allow-same-origin could lift its own sandbox,
+// so those only get scripts; other sites keep their own origin so logins and storage still work
+export function getWebSlideSandbox(url: string): string {
+  let sameOrigin = true;
+  try {
+    sameOrigin = new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    // An unparsable URL gets the stricter sandbox
+  }
+  return sameOrigin ? 'allow-scripts allow-forms' : 'allow-scripts allow-same-origin allow-forms';
+}
+
+// Accepts "intranet.local/menu" as well as full URLs; returns null for anything that isn't http(s)
+export function normalizeWebUrl(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
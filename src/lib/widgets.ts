@@ -0,0 +1,118 @@
+import type { ScreenWidget, WidgetPosition, WidgetType } from '../types';
+
+export const WIDGET_TYPES: { value: WidgetType; label: string }[] = [
+  { value: 'digital_clock', label: 'Digital clock' },
+  { value: 'analog_clock', label: 'Analog clock' },
+  { value: 'date', label: 'Date' },
+  { value: 'countdown', label: 'Countdown' },
+];
+
+export const WIDGET_POSITIONS: { value: WidgetPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+// Zone of the browser the admin panel runs in; only used as a starting value
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function createWidget(type: WidgetType): ScreenWidget {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    position: type === 'countdown' ? 'bottom-right' : 'top-right',
+    size: type === 'analog_clock' ? 4 : 5,
+    text_color: '#ffffff',
+    background_color: '#00000080',
+    time_zone: getBrowserTimeZone(),
+    locale: navigator.language || 'en-GB',
+    show_seconds: false,
+    hour12: false,
+    label: '',
+    target: null,
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock fields of `date` as seen in `timeZone`
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hours: get('hour'),
+    minutes: get('minute'),
+    seconds: get('second'),
+  };
+}
+
+// How far `timeZone` is ahead of UTC at the given instant (DST-aware)
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes, p.seconds);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// ISO timestamp -> "YYYY-MM-DDTHH:MM" in `timeZone`, for <input type="datetime-local">
+export function toZonedDateTimeLocal(iso: string | null, timeZone: string): string {
+  if (!iso) return '';
+  const p = getZonedParts(new Date(iso), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hours)}:${pad(p.minutes)}`;
+}
+
+// "YYYY-MM-DDTHH:MM" meant as wall-clock time in `timeZone` -> ISO timestamp
+export function fromZonedDateTimeLocal(value: string, timeZone: string): string | null {
+  if (!value) return null;
+
+  const [datePart, timePart] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes] = timePart.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The offset can differ on either side of a DST change, so check it at the result again
+  let utc = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const corrected = getTimeZoneOffsetMs(new Date(utc), timeZone);
+  utc = wallClock - corrected;
+
+  return new Date(utc).toISOString();
+}
+
+// "3d 04:12:09" / "04:12:09"
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const time = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ].map(pad).join(':');
+
+  return days > 0 ? `${days}d ${time}` : time;
+}
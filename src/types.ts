@@ -1,18 +1,256 @@
+export interface TimeRange {
+  start: string; // "HH:MM", local time of the display
+  end: string; // "HH:MM", may be earlier than start for overnight ranges
+}
+
+export interface DaypartRule {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  ranges: TimeRange[];
+}
+
+export type TransitionType = 'fade' | 'slide' | 'push-up' | 'zoom' | 'wipe' | 'none';
+
+// How long a video stays on screen: the display_duration timer, one full play, or N full plays
+export type PlaybackMode = 'duration' | 'until_end' | 'repeat';
+
+// 'media' = uploaded image/video, 'text' = slide composed in the admin panel, 'url' = embedded web page
+export type ContentType = 'media' | 'text' | 'url';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextSlideContent {
+  headline: string;
+  body: string;
+  text_color: string; // CSS colour, e.g. "#ffffff"
+  background_color: string;
+  background_image_url: string | null; // Uploaded file shown behind the text (cover)
+  headline_size: number; // Percent of the slide height, so text scales with any screen/zone
+  body_size: number; // Percent of the slide height
+  align: TextAlign;
+}
+
+export interface WebSlideContent {
+  url: string;
+  zoom: number; // Percent; 50 fits a page designed for twice the screen width
+  reload_interval: number; // Seconds between reloads while on screen, 0 = never
+  fallback_image_url: string | null; // Shown when the page can't be loaded (or the display is offline)
+}
+
+// Clockwise rotation of a screen mounted sideways or upside down; items can target one orientation
+export type ScreenRotation = 0 | 90 | 180 | 270;
+export type ScreenOrientation = 'landscape' | 'portrait';
+export type OrientationTarget = 'any' | ScreenOrientation;
+
+// How media that doesn't match the screen's shape is shown: letterboxed (on black, a blurred
+// copy of itself or a solid colour), cropped to fill, or stretched
+export type FitMode = 'contain' | 'cover' | 'stretch' | 'blur' | 'color';
+
 export interface Announcement {
   id: string;
-  image_url: string;
+  content_type: ContentType;
+  image_url: string | null; // null for text slides
+  text_content: TextSlideContent | null; // Only for text slides
+  web_content: WebSlideContent | null; // Only for web page slides
+  group_id: string | null; // Shared by the pages of an imported PDF
+  group_title: string | null;
+  page_number: number | null; // Page within the group, 1-based
   title: string;
   display_duration: number; // in seconds
-  transition_type: 'fade' | 'slide' | 'none';
+  transition_type: TransitionType;
+  transition_duration: number; // in milliseconds
+  ken_burns: boolean; // Pan-and-zoom while a still image is on screen
   active: boolean;
   order_index: number;
   created_at: string;
+  publish_at: string | null; // ISO timestamp, null = visible immediately
+  expire_at: string | null; // ISO timestamp, null = never expires
+  daypart_rules: DaypartRule[] | null; // null/empty = any day, any time
+  screen_ids: string[]; // Screens this item is assigned to
+  playback_mode: PlaybackMode; // Only meaningful for videos
+  play_count: number; // Plays per turn when playback_mode is 'repeat'
+  orientation: OrientationTarget; // Which screens may play this item
+  fit_mode: FitMode; // How images and videos fill the screen
+  fit_color: string | null; // Background for the 'color' fit mode
+  focal_x: number; // Percent from the left kept in view when 'cover' crops
+  focal_y: number; // Percent from the top
+  audio_enabled: boolean; // Videos: play with sound
+  volume: number; // Videos: percent, scaled by the screen's volume
+}
+
+export interface Screen {
+  id: string;
+  slug: string; // Used in the display URL: /?screen=<slug>
+  name: string;
+  playlist_id: string | null; // When set, the screen plays this playlist instead of its assigned items
+  layout_id: string | null; // null = one full-screen zone
+  zone_playlists: Record<string, string>; // Zone key -> playlist id, for every zone except "main"
+  widgets: ScreenWidget[]; // Overlays drawn on top of the content
+  rotation: ScreenRotation; // Clockwise, for TVs mounted sideways or upside down
+  volume: number; // Master volume in percent for videos with sound
+  quiet_hours: DaypartRule[] | null; // Recurring hours in which the screen plays no sound
+  created_at: string;
+}
+
+export type WidgetType = 'digital_clock' | 'analog_clock' | 'date' | 'countdown';
+
+export type WidgetPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export interface ScreenWidget {
+  id: string;
+  type: WidgetType;
+  position: WidgetPosition;
+  size: number; // Text size in percent of the screen height (analog clocks: diameter is 4x this)
+  text_color: string;
+  background_color: string | null; // null = no backdrop
+  time_zone: string; // IANA zone, e.g. "Europe/London"; never the TV's own setting
+  locale: string; // BCP 47 tag used for formatting, e.g. "en-GB"
+  show_seconds: boolean; // Clocks
+  hour12: boolean; // Digital clock
+  label: string; // Countdown: what we are counting down to
+  target: string | null; // Countdown: ISO timestamp of the event
+}
+
+// A rectangle on the screen; all values are percentages of the display's width/height
+export interface LayoutZone {
+  key: string; // Stable id within the layout; "main" plays the screen's own content
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Layout {
+  id: string;
+  name: string;
+  zones: LayoutZone[];
+  created_at: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface PlaylistItem {
+  id: string;
+  playlist_id: string;
+  announcement_id: string;
+  order_index: number; // Order within the playlist, independent of Announcement.order_index
+}
+
+export type TickerPosition = 'top' | 'bottom';
+
+export interface TickerMessage {
+  id: string;
+  text: string;
+  active: boolean;
+  order_index: number;
+  created_at: string;
+  publish_at: string | null; // ISO timestamp, null = visible immediately
+  expire_at: string | null; // ISO timestamp, null = never expires
+}
+
+export interface EmergencyAlert {
+  id: string;
+  title: string;
+  message: string;
+  background_color: string;
+  text_color: string;
+  flashing: boolean;
+  active: boolean;
+  created_at: string;
+  cleared_at: string | null;
+}
+
+// What happened to a slide impression: shown for its full time, cut short, or failed to load
+export type PlayOutcome = 'completed' | 'skipped' | 'error';
+
+export interface PlayLog {
+  id: string; // Generated on the device, so a retried upload can't be counted twice
+  announcement_id: string;
+  announcement_title: string;
+  screen_slug: string | null;
+  zone_key: string;
+  started_at: string;
+  duration_ms: number;
+  outcome: PlayOutcome;
+}
+
+// One row of the get_play_stats RPC
+export interface PlayStats {
+  announcement_id: string;
+  title: string | null;
+  plays: number; // Completed plays; skipped and failed impressions are counted separately
+  skipped: number;
+  errors: number;
+  total_ms: number;
+  screens: number;
+  last_played_at: string;
+}
+
+export interface DeviceError {
+  at: string; // ISO timestamp
+  message: string;
+}
+
+// A browser running the display, as last reported by its heartbeat
+export interface DisplayDevice {
+  id: string;
+  screen_slug: string | null;
+  current_announcement_id: string | null;
+  current_title: string | null;
+  app_version: string | null;
+  resolution: string | null;
+  user_agent: string | null;
+  wake_lock: boolean;
+  paused: boolean;
+  blanked: boolean;
+  audio_blocked: boolean; // Videos with sound play muted until someone interacts with the TV
+  last_error: string | null;
+  recent_errors: DeviceError[];
+  started_at: string | null;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+export type DeviceCommandType = 'reload' | 'goto' | 'next' | 'previous' | 'pause' | 'resume' | 'blank' | 'unblank' | 'identify';
+export type DeviceCommandStatus = 'pending' | 'done' | 'failed';
+
+// A remote control command for one display device
+export interface DeviceCommand {
+  id: string;
+  device_id: string;
+  command: DeviceCommandType;
+  payload: { announcement_id?: string; label?: string };
+  status: DeviceCommandStatus;
+  expires_at: string;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+// A TV registered through the pairing flow
+export interface PairedDisplay {
+  id: string;
+  name: string;
+  screen_id: string | null; // null = the default display
+  device_id: string | null; // Matches DisplayDevice.id
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
 }
 
 export interface AppSettings {
   id?: number;
   default_duration: number; // in seconds
   refresh_interval: number; // in minutes
+  default_transition?: TransitionType; // Pre-selected for new uploads
+  ticker_speed?: number; // Percent of the screen width scrolled per second
+  ticker_text_color?: string;
+  ticker_background_color?: string;
+  ticker_position?: TickerPosition;
+  resume_after_minutes?: number; // A display paused with the remote resumes after this idle time; 0 = never
   security_enabled?: boolean;
   admin_password?: string; // Only used when updating
 }